@@ -0,0 +1,32 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Skills install on their own, so a module used by several skills ships as a
+# copy in each. Edit the first path of a pair; this copies it over the second.
+#   --check   only compare, exit 1 if any copy differs
+
+REPO_ROOT="$(cd "$(dirname "$0")/.." && pwd)"
+SHARED=(
+  "baoyu-comic/scripts/article-info.ts:baoyu-slide-deck/scripts/article-info.ts"
+  "baoyu-comic/scripts/pdf-export.ts:baoyu-slide-deck/scripts/pdf-export.ts"
+)
+
+CHECK=false
+[[ "${1:-}" == "--check" ]] && CHECK=true
+
+status=0
+for pair in "${SHARED[@]}"; do
+  src="${pair%%:*}"
+  dest="${pair#*:}"
+  if $CHECK; then
+    if ! cmp -s "$REPO_ROOT/skills/$src" "$REPO_ROOT/skills/$dest"; then
+      echo "Out of sync: $dest (edit $src, then run $0)"
+      status=1
+    fi
+  else
+    echo "Syncing: $src → $dest"
+    cp "$REPO_ROOT/skills/$src" "$REPO_ROOT/skills/$dest"
+  fi
+done
+
+exit $status
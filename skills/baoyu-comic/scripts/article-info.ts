@@ -0,0 +1,56 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, dirname, join, resolve } from "path";
+import frontMatter from "front-matter";
+
+// Shared by baoyu-comic and baoyu-slide-deck. Edit the baoyu-comic copy, then run
+// scripts/sync-shared-scripts.sh; `--check` fails when the copies differ.
+
+export interface ArticleInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords: string[];
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((v) => String(v).trim()).filter(Boolean);
+  if (typeof value === "string") return value.split(/[,，]/).map((v) => v.trim()).filter(Boolean);
+  return [];
+}
+
+function readFrontmatter(file: string): Record<string, unknown> {
+  try {
+    return frontMatter<Record<string, unknown>>(readFileSync(file, "utf-8")).attributes ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function markdownFiles(dir: string, pattern: RegExp): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => pattern.test(f) && !/-backup-\d{8}-\d{6}\./.test(f))
+    .sort()
+    .map((f) => join(dir, f));
+}
+
+// Title, author and keywords from the source article's frontmatter: a saved
+// source*.md in the output dir, else the article the output dir sits next to.
+export function readArticleInfo(dir: string, outputDirName: string): Partial<ArticleInfo> {
+  const absDir = resolve(dir);
+  const candidates = markdownFiles(absDir, /^source(-.+)?\.md$/i);
+  if (basename(absDir) === outputDirName) candidates.push(...markdownFiles(dirname(absDir), /\.md$/i));
+
+  for (const file of candidates) {
+    const data = readFrontmatter(file);
+    if (typeof data.title !== "string" || !data.title.trim()) continue;
+    const description = data.description ?? data.summary;
+    return {
+      title: data.title.trim(),
+      author: toList(data.author ?? data.authors).join(", ") || undefined,
+      subject: typeof description === "string" ? description.trim() : undefined,
+      keywords: toList(data.keywords ?? data.tags),
+    };
+  }
+  return {};
+}
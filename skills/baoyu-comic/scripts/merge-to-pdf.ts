@@ -1,6 +1,14 @@
 import { existsSync, readdirSync, readFileSync } from "fs";
-import { join, basename } from "path";
-import { PDFDocument } from "pdf-lib";
+import { join, basename, resolve } from "path";
+import { readStoryboard } from "./storyboard";
+import {
+  DEFAULT_MARGIN,
+  createRichPdf,
+  parsePageSize,
+  type PdfLayout,
+  type PdfPageSource,
+} from "./pdf-export";
+import { readArticleInfo } from "./article-info";
 
 interface PageInfo {
   filename: string;
@@ -9,25 +17,43 @@ interface PageInfo {
   promptPath?: string;
 }
 
-function parseArgs(): { dir: string; output?: string } {
+const USAGE =
+  "Usage: bun merge-to-pdf.ts <comic-dir> [--output filename.pdf] [--page-size a4|letter|16:9] [--margin pt] [--font path.ttf]";
+
+function parseArgs(): { dir: string; output?: string; layout: PdfLayout } {
   const args = process.argv.slice(2);
   let dir = "";
   let output: string | undefined;
+  const layout: PdfLayout = { pageSize: null, margin: DEFAULT_MARGIN };
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--output" || args[i] === "-o") {
       output = args[++i];
+    } else if (args[i] === "--page-size") {
+      layout.pageSize = parsePageSize(args[++i]);
+      if (!layout.pageSize) {
+        console.error(`Invalid page size: ${args[i]} (expected a4, letter or 16:9)`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--margin") {
+      layout.margin = parseFloat(args[++i]);
+      if (isNaN(layout.margin) || layout.margin < 0) {
+        console.error(`Invalid margin: ${args[i]}`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--font") {
+      layout.fontPath = args[++i];
     } else if (!args[i].startsWith("-")) {
       dir = args[i];
     }
   }
 
   if (!dir) {
-    console.error("Usage: bun merge-to-pdf.ts <comic-dir> [--output filename.pdf]");
+    console.error(USAGE);
     process.exit(1);
   }
 
-  return { dir, output };
+  return { dir, output, layout };
 }
 
 function findComicPages(dir: string): PageInfo[] {
@@ -66,48 +92,68 @@ function findComicPages(dir: string): PageInfo[] {
   return pages;
 }
 
-async function createPdf(pages: PageInfo[], outputPath: string) {
-  const pdfDoc = await PDFDocument.create();
-  pdfDoc.setAuthor("baoyu-comic");
-  pdfDoc.setSubject("Generated Comic");
-
-  for (const page of pages) {
-    const imageData = readFileSync(page.path);
-    const ext = page.filename.toLowerCase();
-    const image = ext.endsWith(".png")
-      ? await pdfDoc.embedPng(imageData)
-      : await pdfDoc.embedJpg(imageData);
-
-    const { width, height } = image;
-    const pdfPage = pdfDoc.addPage([width, height]);
-
-    pdfPage.drawImage(image, {
-      x: 0,
-      y: 0,
-      width,
-      height,
-    });
-
-    console.log(`Added: ${page.filename}${page.promptPath ? " (prompt available)" : ""}`);
-  }
-
-  const pdfBytes = await pdfDoc.save();
-  await Bun.write(outputPath, pdfBytes);
+// Plain text from a markdown snippet, for the text layer.
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^#+\s*/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "")
+    .replace(/[*_`>]/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
 
-  console.log(`\nCreated: ${outputPath}`);
-  console.log(`Total pages: ${pages.length}`);
+// Lettering from the storyboard when the page is there, else the page's prompt.
+function buildPages(dir: string, pages: PageInfo[]): { title?: string; pages: PdfPageSource[] } {
+  const storyboard = readStoryboard(join(dir, "storyboard.md"));
+  const sources = pages.map((page) => {
+    const baseName = page.filename.replace(/\.(png|jpg|jpeg)$/i, "");
+    const entry = storyboard.pages.get(baseName);
+    const fallbackLabel = /-cover/i.test(baseName) ? "Cover" : `Page ${page.index}`;
+    const label = entry?.label ?? fallbackLabel;
+    const text = entry
+      ? [entry.coreMessage, ...entry.lettering].filter(Boolean).join("\n")
+      : page.promptPath
+        ? stripMarkdown(readFileSync(page.promptPath, "utf-8"))
+        : "";
+    return {
+      imagePath: page.path,
+      bookmark: entry?.coreMessage ? `${label}: ${entry.coreMessage}` : label,
+      text,
+    };
+  });
+  return { title: storyboard.title, pages: sources };
 }
 
 async function main() {
-  const { dir, output } = parseArgs();
+  const { dir, output, layout } = parseArgs();
   const pages = findComicPages(dir);
 
-  const dirName = basename(dir) === "comic" ? basename(join(dir, "..")) : basename(dir);
+  const absDir = resolve(dir);
+  const dirName = basename(absDir) === "comic" ? basename(join(absDir, "..")) : basename(absDir);
   const outputPath = output || join(dir, `${dirName}.pdf`);
 
   console.log(`Found ${pages.length} pages in: ${dir}\n`);
 
-  await createPdf(pages, outputPath);
+  const article = readArticleInfo(dir, "comic");
+  const comic = buildPages(dir, pages);
+  await createRichPdf(
+    comic.pages,
+    {
+      title: article.title ?? comic.title,
+      author: article.author,
+      subject: article.subject ?? "Generated Comic",
+      keywords: article.keywords ?? [],
+      creator: "baoyu-comic",
+    },
+    layout,
+    outputPath
+  );
+
+  console.log(`\nCreated: ${outputPath}`);
+  console.log(`Total pages: ${pages.length}`);
 }
 
 main().catch((err) => {
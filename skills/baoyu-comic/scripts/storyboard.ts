@@ -0,0 +1,63 @@
+import { existsSync, readFileSync } from "fs";
+import frontMatter from "front-matter";
+
+// Reads page titles and lettering from storyboard.md (see references/storyboard-template.md).
+
+export interface StoryboardPage {
+  // "Cover", "Page 3", ...
+  label: string;
+  coreMessage?: string;
+  // Dialogue, narrator boxes and captions, in panel order.
+  lettering: string[];
+}
+
+export interface Storyboard {
+  title?: string;
+  // Keyed by image file name without extension, e.g. "01-page-early-years".
+  pages: Map<string, StoryboardPage>;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["“「『'](.*)["”」』']$/s, "$1").trim();
+}
+
+function parseLettering(section: string): string[] {
+  const lettering: string[] = [];
+  const blocks = section.matchAll(/\*\*Text Elements\*\*:\s*\n((?:[ \t]*-[^\n]*\n?)+)/g);
+  for (const block of blocks) {
+    for (const line of block[1].split("\n")) {
+      const item = line.trim().replace(/^-\s*/, "");
+      if (!item) continue;
+      const colon = item.search(/[:：]/);
+      const value = unquote(colon === -1 ? item : item.slice(colon + 1));
+      if (value && !/^\[.*\]$/.test(value)) lettering.push(value);
+    }
+  }
+  return lettering;
+}
+
+export function readStoryboard(storyboardPath: string): Storyboard {
+  const storyboard: Storyboard = { pages: new Map() };
+  if (!existsSync(storyboardPath)) return storyboard;
+
+  const content = readFileSync(storyboardPath, "utf-8");
+  try {
+    const title = frontMatter<Record<string, unknown>>(content).attributes?.title;
+    if (typeof title === "string" && title.trim()) storyboard.title = title.trim();
+  } catch {
+    // A storyboard without valid frontmatter still has usable sections.
+  }
+
+  for (const section of content.split(/^## /m).slice(1)) {
+    const filename = section.match(/\*\*Filename\*\*:\s*(\S+)/)?.[1];
+    if (!filename) continue;
+    const heading = section.split("\n")[0].trim();
+    const pageNumber = heading.match(/^Page\s+(\d+)/i)?.[1];
+    storyboard.pages.set(filename.replace(/\.(png|jpg|jpeg)$/i, ""), {
+      label: pageNumber ? `Page ${pageNumber}` : heading,
+      coreMessage: section.match(/\*\*Core Message\*\*:\s*(.+)/)?.[1]?.trim(),
+      lettering: parseLettering(section),
+    });
+  }
+  return storyboard;
+}
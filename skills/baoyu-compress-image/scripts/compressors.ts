@@ -0,0 +1,168 @@
+import { spawn } from "child_process";
+
+export type Compressor = "sips" | "cwebp" | "imagemagick" | "sharp";
+export type Format = "webp" | "png" | "jpeg" | "avif";
+
+export type CompressOptions = {
+  // Shrink (never enlarge) to fit within these bounds, keeping the aspect ratio.
+  maxWidth?: number | null;
+  maxHeight?: number | null;
+  // Drop EXIF/XMP/ICC metadata; the image is auto-oriented first so it doesn't turn sideways.
+  stripMetadata?: boolean;
+  // Keep every frame of an animated input. Only sharp does this, and only for WebP output.
+  animated?: boolean;
+};
+
+type Dimensions = { width: number; height: number };
+
+export async function commandExists(cmd: string): Promise<boolean> {
+  try {
+    const proc = spawn("which", [cmd], { stdio: "pipe" });
+    return new Promise((res) => {
+      proc.on("close", (code) => res(code === 0));
+      proc.on("error", () => res(false));
+    });
+  } catch {
+    return false;
+  }
+}
+
+export async function detectCompressor(format: Format): Promise<Compressor> {
+  // sharp bundles libheif; sips, cwebp and a stock ImageMagick can't be relied on to write AVIF.
+  if (format === "avif") return "sharp";
+  if (format === "webp") {
+    if (await commandExists("cwebp")) return "cwebp";
+    if (await commandExists("convert")) return "imagemagick";
+    return "sharp";
+  }
+  if (process.platform === "darwin") return "sips";
+  if (await commandExists("convert")) return "imagemagick";
+  return "sharp";
+}
+
+export function runCmd(cmd: string, args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((res) => {
+    const proc = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    proc.stdout?.on("data", (d) => (stdout += d.toString()));
+    proc.stderr?.on("data", (d) => (stderr += d.toString()));
+    proc.on("close", (code) => res({ code: code ?? 1, stdout, stderr }));
+    proc.on("error", (e) => res({ code: 1, stdout, stderr: e.message }));
+  });
+}
+
+function hasResize(opts: CompressOptions): boolean {
+  return !!(opts.maxWidth || opts.maxHeight);
+}
+
+// Target size for a resize to fit within the bounds, or null when it already fits.
+export function fitWithin(size: Dimensions, maxWidth: number | null | undefined, maxHeight: number | null | undefined): Dimensions | null {
+  const scale = Math.min(1, maxWidth ? maxWidth / size.width : 1, maxHeight ? maxHeight / size.height : 1);
+  if (scale >= 1) return null;
+  return { width: Math.max(1, Math.round(size.width * scale)), height: Math.max(1, Math.round(size.height * scale)) };
+}
+
+async function readSizeWithSips(input: string): Promise<Dimensions> {
+  const { code, stdout, stderr } = await runCmd("sips", ["-g", "pixelWidth", "-g", "pixelHeight", input]);
+  const width = stdout.match(/pixelWidth:\s*(\d+)/)?.[1];
+  const height = stdout.match(/pixelHeight:\s*(\d+)/)?.[1];
+  if (code !== 0 || !width || !height) throw new Error(`sips could not read image size: ${stderr}`);
+  return { width: parseInt(width, 10), height: parseInt(height, 10) };
+}
+
+async function readSizeWithSharp(input: string): Promise<Dimensions> {
+  const sharp = (await import("sharp")).default;
+  const { width, height } = await sharp(input).metadata();
+  if (!width || !height) throw new Error(`Could not read image size: ${input}`);
+  return { width, height };
+}
+
+async function compressWithSips(input: string, output: string, format: Format, quality: number, opts: CompressOptions): Promise<void> {
+  const fmt = format === "jpeg" ? "jpeg" : format;
+  const args = ["-s", "format", fmt, "-s", "formatOptions", String(quality)];
+  const target = hasResize(opts) ? fitWithin(await readSizeWithSips(input), opts.maxWidth, opts.maxHeight) : null;
+  if (target) args.push("-z", String(target.height), String(target.width));
+  args.push(input, "--out", output);
+  const { code, stderr } = await runCmd("sips", args);
+  if (code !== 0) throw new Error(`sips failed: ${stderr}`);
+}
+
+// cwebp writes no metadata unless asked (-metadata), so stripping needs no flag.
+async function compressWithCwebp(input: string, output: string, quality: number, opts: CompressOptions): Promise<void> {
+  const args = ["-q", String(quality)];
+  const target = hasResize(opts) ? fitWithin(await readSizeWithSharp(input), opts.maxWidth, opts.maxHeight) : null;
+  if (target) args.push("-resize", String(target.width), String(target.height));
+  args.push(input, "-o", output);
+  const { code, stderr } = await runCmd("cwebp", args);
+  if (code !== 0) throw new Error(`cwebp failed: ${stderr}`);
+}
+
+// Outputs go to temporary names (.try, .tmp), so the format is given explicitly
+// rather than left for convert to guess from the suffix.
+async function compressWithImagemagick(input: string, output: string, format: Format, quality: number, opts: CompressOptions): Promise<void> {
+  const args = [input];
+  if (opts.stripMetadata) args.push("-auto-orient", "-strip");
+  // ">" only ever shrinks.
+  if (hasResize(opts)) args.push("-resize", `${opts.maxWidth ?? ""}x${opts.maxHeight ?? ""}>`);
+  args.push("-quality", String(quality), `${format}:${output}`);
+  const { code, stderr } = await runCmd("convert", args);
+  if (code !== 0) throw new Error(`convert failed: ${stderr}`);
+}
+
+// sharp drops metadata unless told to keep it.
+async function compressWithSharp(input: string, output: string, format: Format, quality: number, opts: CompressOptions): Promise<void> {
+  const sharp = (await import("sharp")).default;
+  let pipeline = sharp(input, { animated: !!opts.animated });
+  if (opts.stripMetadata) pipeline = pipeline.rotate();
+  if (hasResize(opts)) {
+    pipeline = pipeline.resize({
+      width: opts.maxWidth ?? undefined,
+      height: opts.maxHeight ?? undefined,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+  if (format === "webp") pipeline = pipeline.webp({ quality });
+  else if (format === "png") pipeline = pipeline.png({ quality });
+  else if (format === "jpeg") pipeline = pipeline.jpeg({ quality });
+  else if (format === "avif") pipeline = pipeline.avif({ quality });
+  await pipeline.toFile(output);
+}
+
+export async function compress(
+  compressor: Compressor,
+  input: string,
+  output: string,
+  format: Format,
+  quality: number,
+  opts: CompressOptions = {}
+): Promise<void> {
+  if (format === "avif" || opts.animated) {
+    await compressWithSharp(input, output, format, quality, opts);
+    return;
+  }
+  switch (compressor) {
+    case "sips":
+      // sips can't drop metadata.
+      if (opts.stripMetadata) {
+        await compressWithSharp(input, output, format, quality, opts);
+      } else {
+        await compressWithSips(input, output, format, quality, opts);
+      }
+      break;
+    case "cwebp":
+      if (format !== "webp") {
+        await compressWithSharp(input, output, format, quality, opts);
+      } else {
+        await compressWithCwebp(input, output, quality, opts);
+      }
+      break;
+    case "imagemagick":
+      await compressWithImagemagick(input, output, format, quality, opts);
+      break;
+    case "sharp":
+      await compressWithSharp(input, output, format, quality, opts);
+      break;
+  }
+}
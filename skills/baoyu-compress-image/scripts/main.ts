@@ -1,18 +1,40 @@
 #!/usr/bin/env bun
 import { existsSync, statSync, readdirSync, unlinkSync, renameSync } from "fs";
+import { cpus, tmpdir } from "os";
 import { basename, dirname, extname, join, resolve } from "path";
-import { spawn } from "child_process";
-
-type Compressor = "sips" | "cwebp" | "imagemagick" | "sharp";
-type Format = "webp" | "png" | "jpeg";
+import { detectCompressor, compress, type CompressOptions, type Compressor, type Format } from "./compressors";
+import { probeImage, type ImageInfo } from "./probe";
+import { computeSsim } from "./ssim";
+import {
+  absolutePath,
+  hashFile,
+  findManifest,
+  loadManifest,
+  relativePath,
+  saveManifest,
+  skipReason,
+  type Manifest,
+} from "./manifest";
+
+type Platform = "web" | "wechat" | "x" | "weibo";
 
 interface Options {
   input: string;
   output?: string;
-  format: Format;
+  format: Format | "auto";
+  platform: Platform;
   quality: number;
+  maxSize: number | null;
+  minSsim: number | null;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  stripMetadata: boolean;
   keep: boolean;
   recursive: boolean;
+  concurrency: number;
+  dryRun: boolean;
+  restore: boolean;
+  force: boolean;
   json: boolean;
 }
 
@@ -23,144 +45,453 @@ interface Result {
   outputSize: number;
   ratio: number;
   compressor: Compressor;
+  format: Format;
+  animated: boolean;
+  quality: number;
+  // null when no --max-size was given.
+  maxSizeMet: boolean | null;
+  // Score against the input; null when no --min-ssim was given.
+  ssim: number | null;
+  ssimMet: boolean | null;
+  // Where the original was moved aside, if it was.
+  original: string | null;
 }
 
-const SUPPORTED_EXTS = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".tiff"];
+// One candidate encoding, still in its temp file.
+interface Encoded {
+  format: Format;
+  compressor: Compressor;
+  file: string;
+  size: number;
+  quality: number;
+  maxSizeMet: boolean | null;
+  ssim: number | null;
+  ssimMet: boolean | null;
+}
 
-async function commandExists(cmd: string): Promise<boolean> {
-  try {
-    const proc = spawn("which", [cmd], { stdio: "pipe" });
-    return new Promise((res) => {
-      proc.on("close", (code) => res(code === 0));
-      proc.on("error", () => res(false));
-    });
-  } catch {
-    return false;
-  }
+type CompressorFor = (format: Format) => Promise<Compressor>;
+
+interface Skipped {
+  input: string;
+  reason: string;
 }
 
-async function detectCompressor(format: Format): Promise<Compressor> {
-  if (format === "webp") {
-    if (await commandExists("cwebp")) return "cwebp";
-    if (await commandExists("convert")) return "imagemagick";
-    return "sharp";
+interface Restored {
+  original: string;
+  restored: string;
+  removedOutput: string | null;
+  note?: string;
+}
+
+const SUPPORTED_EXTS = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".tiff", ".avif"];
+// Formats --format auto may choose per platform. WeChat, X and Weibo don't take AVIF.
+const PLATFORM_FORMATS: Record<Platform, Format[]> = {
+  web: ["avif", "webp", "jpeg", "png"],
+  wechat: ["webp", "jpeg", "png"],
+  x: ["webp", "jpeg", "png"],
+  weibo: ["webp", "jpeg", "png"],
+};
+// Lowest quality --max-size will go to before giving up.
+const MIN_QUALITY = 10;
+const DEFAULT_CONCURRENCY = Math.max(1, Math.min(4, cpus().length));
+
+let dryRunSeq = 0;
+
+function extensionFor(format: Format): string {
+  return format === "jpeg" ? ".jpg" : `.${format}`;
+}
+
+function getOutputPath(input: string, format: Format, keep: boolean, customOutput?: string): string {
+  if (customOutput) return resolve(customOutput);
+  const dir = dirname(input);
+  const base = basename(input, extname(input));
+  const ext = extensionFor(format);
+  if (keep && extname(input).toLowerCase() === ext) {
+    return join(dir, `${base}-compressed${ext}`);
   }
-  if (process.platform === "darwin") return "sips";
-  if (await commandExists("convert")) return "imagemagick";
-  return "sharp";
+  return join(dir, `${base}${ext}`);
+}
+
+function backupPath(file: string): string {
+  const ext = extname(file);
+  return `${file.slice(0, -ext.length)}_original${ext}`;
 }
 
-function runCmd(cmd: string, args: string[]): Promise<{ code: number; stderr: string }> {
-  return new Promise((res) => {
-    const proc = spawn(cmd, args, { stdio: ["ignore", "ignore", "pipe"] });
-    let stderr = "";
-    proc.stderr?.on("data", (d) => (stderr += d.toString()));
-    proc.on("close", (code) => res({ code: code ?? 1, stderr }));
-    proc.on("error", (e) => res({ code: 1, stderr: e.message }));
-  });
+function isBackup(file: string): boolean {
+  return basename(file, extname(file)).endsWith("_original");
 }
 
-async function compressWithSips(input: string, output: string, format: Format, quality: number): Promise<void> {
-  const fmt = format === "jpeg" ? "jpeg" : format;
-  const args = ["-s", "format", fmt, "-s", "formatOptions", String(quality), input, "--out", output];
-  const { code, stderr } = await runCmd("sips", args);
-  if (code !== 0) throw new Error(`sips failed: ${stderr}`);
+// Everything that changes the bytes written; a manifest entry made with other settings is stale.
+function settingsKey(opts: Options): string {
+  return [
+    opts.format === "auto" ? `auto-${opts.platform}` : opts.format,
+    `q${opts.quality}`,
+    `size${opts.maxSize ?? "-"}`,
+    `ssim${opts.minSsim ?? "-"}`,
+    `w${opts.maxWidth ?? "-"}`,
+    `h${opts.maxHeight ?? "-"}`,
+    opts.stripMetadata ? "strip" : "meta",
+  ].join(":");
 }
 
-async function compressWithCwebp(input: string, output: string, quality: number): Promise<void> {
-  const args = ["-q", String(quality), input, "-o", output];
-  const { code, stderr } = await runCmd("cwebp", args);
-  if (code !== 0) throw new Error(`cwebp failed: ${stderr}`);
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
 }
 
-async function compressWithImagemagick(input: string, output: string, quality: number): Promise<void> {
-  const args = [input, "-quality", String(quality), output];
-  const { code, stderr } = await runCmd("convert", args);
-  if (code !== 0) throw new Error(`convert failed: ${stderr}`);
+// "2MB", "500KB", "1.5m", "800k" or plain bytes; units are binary (1KB = 1024B) like formatSize.
+function parseSize(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|k|kb|kib|m|mb|mib)?$/i);
+  if (!match) return null;
+  const unit = (match[2] ?? "b").toLowerCase()[0];
+  const bytes = parseFloat(match[1]) * (unit === "m" ? 1024 * 1024 : unit === "k" ? 1024 : 1);
+  return bytes > 0 ? Math.floor(bytes) : null;
 }
 
-async function compressWithSharp(input: string, output: string, format: Format, quality: number): Promise<void> {
-  const sharp = (await import("sharp")).default;
-  let pipeline = sharp(input);
-  if (format === "webp") pipeline = pipeline.webp({ quality });
-  else if (format === "png") pipeline = pipeline.png({ quality });
-  else if (format === "jpeg") pipeline = pipeline.jpeg({ quality });
-  await pipeline.toFile(output);
+function parseDimension(value: string | undefined): number | null {
+  const n = parseInt(value ?? "", 10);
+  return isNaN(n) || n <= 0 ? null : n;
 }
 
-async function compress(
+// Binary search for the highest quality (up to --quality) whose output fits in
+// maxSize. Falls back to MIN_QUALITY, the smallest output, when nothing fits.
+async function compressToSize(
   compressor: Compressor,
   input: string,
   output: string,
   format: Format,
-  quality: number
-): Promise<void> {
-  switch (compressor) {
-    case "sips":
-      await compressWithSips(input, output, format, quality);
-      break;
-    case "cwebp":
-      if (format !== "webp") {
-        await compressWithSharp(input, output, format, quality);
+  opts: Options,
+  compressOpts: CompressOptions
+): Promise<{ quality: number; met: boolean }> {
+  const maxSize = opts.maxSize!;
+  await compress(compressor, input, output, format, opts.quality, compressOpts);
+  if (statSync(output).size <= maxSize) return { quality: opts.quality, met: true };
+
+  const attempt = output + ".try";
+  let lo = MIN_QUALITY;
+  let hi = opts.quality - 1;
+  let best: number | null = null;
+  try {
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      await compress(compressor, input, attempt, format, mid, compressOpts);
+      if (statSync(attempt).size <= maxSize) {
+        best = mid;
+        renameSync(attempt, output);
+        lo = mid + 1;
       } else {
-        await compressWithCwebp(input, output, quality);
+        hi = mid - 1;
       }
-      break;
-    case "imagemagick":
-      await compressWithImagemagick(input, output, quality);
-      break;
-    case "sharp":
-      await compressWithSharp(input, output, format, quality);
-      break;
+    }
+    if (best !== null) return { quality: best, met: true };
+
+    const quality = Math.min(MIN_QUALITY, opts.quality);
+    await compress(compressor, input, output, format, quality, compressOpts);
+    return { quality, met: false };
+  } finally {
+    if (existsSync(attempt)) unlinkSync(attempt);
   }
 }
 
-function getOutputPath(input: string, format: Format, keep: boolean, customOutput?: string): string {
-  if (customOutput) return resolve(customOutput);
-  const dir = dirname(input);
-  const base = basename(input, extname(input));
-  const ext = format === "jpeg" ? ".jpg" : `.${format}`;
-  if (keep && extname(input).toLowerCase() === ext) {
-    return join(dir, `${base}-compressed${ext}`);
+// Binary search upward from the quality already in `output` for the lowest one
+// scoring at least --min-ssim. Ends at quality 100 when nothing does.
+async function raiseToSsim(
+  compressor: Compressor,
+  input: string,
+  output: string,
+  format: Format,
+  quality: number,
+  opts: Options,
+  compressOpts: CompressOptions
+): Promise<{ quality: number; ssim: number; met: boolean }> {
+  const minSsim = opts.minSsim!;
+  const score = await computeSsim(input, output, compressOpts);
+  if (score >= minSsim || quality >= 100) return { quality, ssim: score, met: score >= minSsim };
+
+  const attempt = output + ".try";
+  let lo = quality + 1;
+  let hi = 100;
+  let best: { quality: number; ssim: number } | null = null;
+  try {
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      await compress(compressor, input, attempt, format, mid, compressOpts);
+      const ssim = await computeSsim(input, attempt, compressOpts);
+      if (ssim >= minSsim) {
+        best = { quality: mid, ssim };
+        renameSync(attempt, output);
+        hi = mid - 1;
+      } else {
+        lo = mid + 1;
+      }
+    }
+    if (best) return { ...best, met: true };
+
+    await compress(compressor, input, output, format, 100, compressOpts);
+    return { quality: 100, ssim: await computeSsim(input, output, compressOpts), met: false };
+  } finally {
+    if (existsSync(attempt)) unlinkSync(attempt);
   }
-  return join(dir, `${base}${ext}`);
 }
 
-function formatSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes}B`;
-  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+function compressorResolver(): CompressorFor {
+  const cache = new Map<Format, Promise<Compressor>>();
+  return (format) => {
+    let compressor = cache.get(format);
+    if (!compressor) {
+      compressor = detectCompressor(format);
+      cache.set(format, compressor);
+    }
+    return compressor;
+  };
+}
+
+// The requested format, or for --format auto every format the platform accepts.
+// Animated inputs only ever become animated WebP; anything else would keep one frame.
+function candidateFormats(info: ImageInfo, input: string, opts: Options): Format[] {
+  let formats = opts.format === "auto" ? PLATFORM_FORMATS[opts.platform] : [opts.format];
+  if (opts.format === "auto" && info.hasAlpha) formats = formats.filter((f) => f !== "jpeg");
+  if (!info.animated) return formats;
+
+  const name = basename(input);
+  if (info.format === "png") {
+    throw new Error(`${name} is an animated PNG (${info.frames} frames); compressing it would keep only the first frame`);
+  }
+  if (formats.includes("webp")) return ["webp"];
+  const target = opts.format === "auto" ? `--platform ${opts.platform}` : opts.format.toUpperCase();
+  throw new Error(
+    `${name} is animated (${info.frames} frames) and ${target} would keep only the first frame. ` +
+      `Use --format webp to keep the animation.`
+  );
+}
+
+async function encode(
+  compressorFor: CompressorFor,
+  input: string,
+  file: string,
+  format: Format,
+  opts: Options,
+  compressOpts: CompressOptions
+): Promise<Encoded> {
+  const compressor = compressOpts.animated ? "sharp" : await compressorFor(format);
+  let quality = opts.quality;
+  let maxSizeMet: boolean | null = null;
+  if (opts.maxSize === null) {
+    await compress(compressor, input, file, format, quality, compressOpts);
+  } else {
+    ({ quality, met: maxSizeMet } = await compressToSize(compressor, input, file, format, opts, compressOpts));
+  }
+
+  let ssim: number | null = null;
+  let ssimMet: boolean | null = null;
+  if (opts.minSsim !== null) {
+    // Legibility wins over --max-size: quality goes back up even if that breaks the size target.
+    ({ quality, ssim, met: ssimMet } = await raiseToSsim(compressor, input, file, format, quality, opts, compressOpts));
+  }
+  const size = statSync(file).size;
+  if (opts.maxSize !== null) maxSizeMet = size <= opts.maxSize;
+  return { format, compressor, file, size, quality, maxSizeMet, ssim, ssimMet };
+}
+
+// Meeting --min-ssim comes first, then --max-size; otherwise the smaller file wins.
+function isBetter(a: Encoded, b: Encoded): boolean {
+  if ((a.ssimMet === false) !== (b.ssimMet === false)) return b.ssimMet === false;
+  if ((a.maxSizeMet === false) !== (b.maxSizeMet === false)) return b.maxSizeMet === false;
+  return a.size < b.size;
 }
 
 async function processFile(
-  compressor: Compressor,
+  compressorFor: CompressorFor,
   input: string,
   opts: Options
 ): Promise<Result> {
   const absInput = resolve(input);
   const inputSize = statSync(absInput).size;
-  const output = getOutputPath(absInput, opts.format, opts.keep, opts.output);
-  const tempOutput = output + ".tmp";
-
-  await compress(compressor, absInput, tempOutput, opts.format, opts.quality);
+  const info = probeImage(absInput);
+  const formats = candidateFormats(info, absInput, opts);
+  const compressOpts: CompressOptions = {
+    maxWidth: opts.maxWidth,
+    maxHeight: opts.maxHeight,
+    stripMetadata: opts.stripMetadata,
+    animated: info.animated,
+  };
+  const outputFor = (format: Format) => {
+    const path = getOutputPath(absInput, format, opts.keep, opts.output);
+    // With --format auto the chosen format decides the extension, even for -o.
+    return opts.format === "auto" && opts.output ? path.slice(0, path.length - extname(path).length) + extensionFor(format) : path;
+  };
+  // A dry run encodes into the temp dir to measure, and leaves the input untouched.
+  const tempFor = (format: Format) =>
+    opts.dryRun
+      ? join(tmpdir(), `baoyu-compress-${process.pid}-${++dryRunSeq}${extensionFor(format)}`)
+      : outputFor(format) + ".tmp";
 
-  const outputSize = statSync(tempOutput).size;
+  let best: Encoded | null = null;
+  try {
+    for (const format of formats) {
+      const encoded = await encode(compressorFor, absInput, tempFor(format), format, opts, compressOpts);
+      if (best && !isBetter(encoded, best)) {
+        unlinkSync(encoded.file);
+        continue;
+      }
+      if (best) unlinkSync(best.file);
+      best = encoded;
+    }
+  } catch (e) {
+    if (best) unlinkSync(best.file);
+    throw e;
+  }
+  const chosen = best!;
+  const output = outputFor(chosen.format);
 
-  if (!opts.keep && absInput !== output) {
-    const ext = extname(absInput);
-    const base = absInput.slice(0, -ext.length);
-    renameSync(absInput, `${base}_original${ext}`);
+  let original: string | null = null;
+  if (opts.dryRun) {
+    unlinkSync(chosen.file);
+  } else {
+    if (!opts.keep && absInput !== output) {
+      original = backupPath(absInput);
+      renameSync(absInput, original);
+    }
+    renameSync(chosen.file, output);
   }
-  renameSync(tempOutput, output);
 
   return {
     input: absInput,
     output,
     inputSize,
-    outputSize,
-    ratio: outputSize / inputSize,
-    compressor,
+    outputSize: chosen.size,
+    ratio: chosen.size / inputSize,
+    compressor: chosen.compressor,
+    format: chosen.format,
+    animated: info.animated,
+    quality: chosen.quality,
+    maxSizeMet: chosen.maxSizeMet,
+    ssim: chosen.ssim,
+    ssimMet: chosen.ssimMet,
+    original,
+  };
+}
+
+// Compresses one file unless the manifest shows it has been done with the same settings.
+// Without a manifest every file is compressed and nothing is recorded.
+async function handleFile(
+  compressorFor: CompressorFor,
+  file: string,
+  opts: Options,
+  manifest: Manifest | null
+): Promise<Result | Skipped> {
+  const input = resolve(file);
+  if (!manifest) return processFile(compressorFor, input, opts);
+
+  const hash = hashFile(input);
+  const settings = settingsKey(opts);
+  if (!opts.force) {
+    const reason = skipReason(manifest, hash, settings);
+    if (reason) return { input, reason };
+  }
+
+  const r = await processFile(compressorFor, input, opts);
+  if (!opts.dryRun) {
+    manifest.entries[hash] = {
+      input: relativePath(manifest, input),
+      original: r.original && relativePath(manifest, r.original),
+      output: relativePath(manifest, r.output),
+      outputHash: hashFile(r.output),
+      settings,
+      inputSize: r.inputSize,
+      outputSize: r.outputSize,
+      compressedAt: new Date().toISOString(),
+    };
+    saveManifest(manifest);
+  }
+  return r;
+}
+
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) await worker(items[next++]);
   };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
+}
+
+// Moves `_original` files back into place. Compressed outputs recorded in the
+// manifest are removed only if they have not changed since.
+function restoreOriginals(input: string, opts: Options): Restored[] {
+  const isDir = statSync(input).isDirectory();
+  // A single file without a manifest next to it restores from an empty one that is never saved.
+  const found = isDir ? loadManifest(input) : findManifest(dirname(input));
+  const manifest = found ?? loadManifest(dirname(input));
+  const restored: Restored[] = [];
+  const handled = new Set<string>();
+
+  for (const [hash, entry] of Object.entries(manifest.entries)) {
+    if (!entry.original) continue;
+    const original = absolutePath(manifest, entry.original);
+    const target = absolutePath(manifest, entry.input);
+    const output = absolutePath(manifest, entry.output);
+    if (isDir ? !opts.recursive && dirname(original) !== input : ![original, target, output].includes(input)) continue;
+    if (!existsSync(original)) continue;
+    handled.add(original);
+
+    if (existsSync(target)) {
+      restored.push({ original, restored: target, removedOutput: null, note: `${basename(target)} already exists` });
+      continue;
+    }
+    const outputUnchanged = existsSync(output) && hashFile(output) === entry.outputHash;
+    if (!opts.dryRun) {
+      renameSync(original, target);
+      if (outputUnchanged) unlinkSync(output);
+      delete manifest.entries[hash];
+    }
+    restored.push({
+      original,
+      restored: target,
+      removedOutput: outputUnchanged ? output : null,
+      note: existsSync(output) && !outputUnchanged ? `${basename(output)} changed since compression, left in place` : undefined,
+    });
+  }
+
+  // Backups from runs before the manifest existed: restore them when the name is free.
+  const backups = isDir ? collectFiles(input, opts.recursive).filter(isBackup) : isBackup(input) ? [input] : [];
+  for (const original of backups) {
+    if (handled.has(original)) continue;
+    const ext = extname(original);
+    const target = original.slice(0, -ext.length - "_original".length) + ext;
+    if (existsSync(target)) {
+      restored.push({ original, restored: target, removedOutput: null, note: `${basename(target)} already exists` });
+      continue;
+    }
+    if (!opts.dryRun) renameSync(original, target);
+    restored.push({ original, restored: target, removedOutput: null, note: "not in manifest, compressed copy left in place" });
+  }
+
+  if (found && !opts.dryRun) saveManifest(manifest);
+  return restored;
+}
+
+function describeResult(r: Result, opts: Options): string {
+  const reduction = Math.round((1 - r.ratio) * 100);
+  const quality = opts.maxSize !== null ? `, quality ${r.quality}` : "";
+  const animated = r.animated ? ", animated" : "";
+  const ssim = r.ssim !== null ? `, ssim ${r.ssim.toFixed(4)}` : "";
+  const prefix = opts.dryRun ? "[dry run] " : "";
+  return `${prefix}${r.input} → ${r.output} (${formatSize(r.inputSize)} → ${formatSize(r.outputSize)}, ${reduction}% reduction${quality}${ssim}${animated})`;
+}
+
+function warnUnmetTarget(r: Result, opts: Options): void {
+  if (r.ssimMet === false) {
+    console.error(`Warning: ${r.output} scores ssim ${r.ssim!.toFixed(4)}, under --min-ssim ${opts.minSsim} even at quality 100.`);
+  }
+  if (r.maxSizeMet !== false) return;
+  // A missed size target ends at the lowest quality unless --min-ssim raised it again.
+  const raised = r.quality > Math.min(MIN_QUALITY, opts.quality);
+  console.error(
+    `Warning: ${r.output} is ${formatSize(r.outputSize)}, over --max-size ${formatSize(opts.maxSize!)} ` +
+      `${raised ? `at quality ${r.quality}, raised for --min-ssim` : `even at quality ${r.quality}`}. ` +
+      `Try --max-width/--max-height${r.format === "png" ? " or a lossy format (webp, jpeg)" : ""}.`
+  );
 }
 
 function collectFiles(dir: string, recursive: boolean): string[] {
@@ -181,22 +512,42 @@ function printHelp() {
   console.log(`Usage: bun main.ts <input> [options]
 
 Options:
-  -o, --output <path>   Output path
-  -f, --format <fmt>    Output format: webp, png, jpeg (default: webp)
-  -q, --quality <n>     Quality 0-100 (default: 80)
-  -k, --keep            Keep original file
-  -r, --recursive       Process directories recursively
-      --json            JSON output
-  -h, --help            Show help`);
+  -o, --output <path>     Output path
+  -f, --format <fmt>      Output format: webp, png, jpeg, avif, auto (default: webp)
+      --platform <name>   Formats auto may pick: web, wechat, x, weibo (default: web)
+  -q, --quality <n>       Quality 0-100 (default: 80); the upper bound with --max-size
+      --max-size <size>   Target file size, e.g. 2MB, 500KB (searches quality down to ${MIN_QUALITY})
+      --min-ssim <score>  Raise quality until SSIM vs. the input reaches this, e.g. 0.95 (needs sharp)
+      --max-width <px>    Shrink to at most this width (keeps aspect ratio)
+      --max-height <px>   Shrink to at most this height (keeps aspect ratio)
+      --strip-metadata    Remove EXIF/XMP/ICC metadata (auto-orients first)
+  -k, --keep              Keep original file
+  -r, --recursive         Process directories recursively
+  -c, --concurrency <n>   Files compressed in parallel (default: ${DEFAULT_CONCURRENCY})
+      --dry-run           Report projected savings without writing anything
+      --force             Recompress files the manifest marks as done
+      --restore           Move _original files back and remove their compressed copies
+      --json              JSON output
+  -h, --help              Show help`);
 }
 
 function parseArgs(args: string[]): Options | null {
   const opts: Options = {
     input: "",
     format: "webp",
+    platform: "web",
     quality: 80,
+    maxSize: null,
+    minSsim: null,
+    maxWidth: null,
+    maxHeight: null,
+    stripMetadata: false,
     keep: false,
     recursive: false,
+    concurrency: DEFAULT_CONCURRENCY,
+    dryRun: false,
+    restore: false,
+    force: false,
     json: false,
   };
 
@@ -209,12 +560,19 @@ function parseArgs(args: string[]): Options | null {
       opts.output = args[++i];
     } else if (arg === "-f" || arg === "--format") {
       const fmt = args[++i]?.toLowerCase();
-      if (fmt === "webp" || fmt === "png" || fmt === "jpeg" || fmt === "jpg") {
-        opts.format = fmt === "jpg" ? "jpeg" : (fmt as Format);
+      if (fmt === "webp" || fmt === "png" || fmt === "jpeg" || fmt === "jpg" || fmt === "avif" || fmt === "auto") {
+        opts.format = fmt === "jpg" ? "jpeg" : (fmt as Format | "auto");
       } else {
         console.error(`Invalid format: ${fmt}`);
         return null;
       }
+    } else if (arg === "--platform") {
+      const platform = args[++i]?.toLowerCase();
+      if (!platform || !(platform in PLATFORM_FORMATS)) {
+        console.error(`Invalid platform: ${platform} (expected ${Object.keys(PLATFORM_FORMATS).join(", ")})`);
+        return null;
+      }
+      opts.platform = platform as Platform;
     } else if (arg === "-q" || arg === "--quality") {
       const q = parseInt(args[++i], 10);
       if (isNaN(q) || q < 0 || q > 100) {
@@ -222,10 +580,47 @@ function parseArgs(args: string[]): Options | null {
         return null;
       }
       opts.quality = q;
+    } else if (arg === "--max-size") {
+      const size = parseSize(args[++i] ?? "");
+      if (size === null) {
+        console.error(`Invalid max size: ${args[i]} (expected e.g. 2MB, 500KB)`);
+        return null;
+      }
+      opts.maxSize = size;
+    } else if (arg === "--min-ssim") {
+      const score = parseFloat(args[++i]);
+      if (isNaN(score) || score <= 0 || score > 1) {
+        console.error(`Invalid min ssim: ${args[i]} (expected a score in (0, 1], e.g. 0.95)`);
+        return null;
+      }
+      opts.minSsim = score;
+    } else if (arg === "--max-width" || arg === "--max-height") {
+      const px = parseDimension(args[++i]);
+      if (px === null) {
+        console.error(`Invalid ${arg.slice(2)}: ${args[i]}`);
+        return null;
+      }
+      if (arg === "--max-width") opts.maxWidth = px;
+      else opts.maxHeight = px;
+    } else if (arg === "--strip-metadata") {
+      opts.stripMetadata = true;
     } else if (arg === "-k" || arg === "--keep") {
       opts.keep = true;
     } else if (arg === "-r" || arg === "--recursive") {
       opts.recursive = true;
+    } else if (arg === "-c" || arg === "--concurrency") {
+      const n = parseInt(args[++i], 10);
+      if (isNaN(n) || n < 1) {
+        console.error(`Invalid concurrency: ${args[i]}`);
+        return null;
+      }
+      opts.concurrency = n;
+    } else if (arg === "--dry-run") {
+      opts.dryRun = true;
+    } else if (arg === "--force") {
+      opts.force = true;
+    } else if (arg === "--restore") {
+      opts.restore = true;
     } else if (arg === "--json") {
       opts.json = true;
     } else if (!arg.startsWith("-") && !opts.input) {
@@ -242,6 +637,34 @@ function parseArgs(args: string[]): Options | null {
   return opts;
 }
 
+function printRestored(restored: Restored[], opts: Options): void {
+  if (opts.json) {
+    console.log(JSON.stringify({ restored, dryRun: opts.dryRun }, null, 2));
+    return;
+  }
+  if (restored.length === 0) {
+    console.log("No _original files to restore");
+    return;
+  }
+  const prefix = opts.dryRun ? "[dry run] " : "";
+  for (const r of restored) {
+    const removed = r.removedOutput ? `, removed ${basename(r.removedOutput)}` : "";
+    const note = r.note ? ` (${r.note})` : "";
+    console.log(`${prefix}${r.original} → ${r.restored}${removed}${note}`);
+  }
+}
+
+// Single-format runs use one compressor; --format auto and animated inputs can mix them.
+function compressorSummary(results: Result[]): Compressor | "mixed" | null {
+  const used = new Set(results.map((r) => r.compressor));
+  if (used.size > 1) return "mixed";
+  return results[0]?.compressor ?? null;
+}
+
+function isSkipped(r: Result | Skipped): r is Skipped {
+  return "reason" in r;
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const opts = parseArgs(args);
@@ -253,60 +676,115 @@ async function main() {
     process.exit(1);
   }
 
-  const compressor = await detectCompressor(opts.format);
+  if (opts.restore) {
+    try {
+      printRestored(restoreOriginals(input, opts), opts);
+    } catch (e) {
+      console.error(`Error: ${(e as Error).message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (opts.minSsim !== null) {
+    try {
+      await import("sharp");
+    } catch {
+      console.error("Error: --min-ssim needs sharp to decode images (bun add sharp)");
+      process.exit(1);
+    }
+  }
+
+  const compressorFor = compressorResolver();
   const isDir = statSync(input).isDirectory();
 
   if (isDir) {
-    const files = collectFiles(input, opts.recursive);
+    // `_original` backups are never inputs, so they are neither compressed nor counted as skipped.
+    const files = collectFiles(input, opts.recursive).filter((f) => !isBackup(f));
     if (files.length === 0) {
       console.error("No supported images found");
       process.exit(1);
     }
 
+    const manifest = loadManifest(input);
     const results: Result[] = [];
+    const skipped: Skipped[] = [];
+    const pending: string[] = [];
+    // Two inputs that differ only in extension would write the same output.
+    const claimed = new Map<string, string>();
     for (const file of files) {
+      // With --format auto the extension isn't known yet, so claim the name without one.
+      const output = opts.format === "auto" ? file.slice(0, -extname(file).length) : getOutputPath(file, opts.format, opts.keep);
+      const other = claimed.get(output);
+      if (other) {
+        skipped.push({ input: file, reason: `same output name as ${basename(other)}` });
+        continue;
+      }
+      claimed.set(output, file);
+      pending.push(file);
+    }
+
+    await runPool(pending, opts.concurrency, async (file) => {
       try {
-        const r = await processFile(compressor, file, { ...opts, output: undefined });
-        results.push(r);
-        if (!opts.json) {
-          const reduction = Math.round((1 - r.ratio) * 100);
-          console.log(`${r.input} → ${r.output} (${formatSize(r.inputSize)} → ${formatSize(r.outputSize)}, ${reduction}% reduction)`);
+        const r = await handleFile(compressorFor, file, { ...opts, output: undefined }, manifest);
+        if (isSkipped(r)) {
+          skipped.push(r);
+          return;
         }
+        results.push(r);
+        if (!opts.json) console.log(describeResult(r, opts));
+        warnUnmetTarget(r, opts);
       } catch (e) {
         if (!opts.json) console.error(`Error processing ${file}: ${(e as Error).message}`);
       }
-    }
+    });
+    results.sort((a, b) => a.input.localeCompare(b.input));
 
+    const totalInput = results.reduce((s, r) => s + r.inputSize, 0);
+    const totalOutput = results.reduce((s, r) => s + r.outputSize, 0);
     if (opts.json) {
-      const totalInput = results.reduce((s, r) => s + r.inputSize, 0);
-      const totalOutput = results.reduce((s, r) => s + r.outputSize, 0);
       console.log(
         JSON.stringify({
           files: results,
+          skipped,
           summary: {
             totalFiles: results.length,
+            skippedFiles: skipped.length,
             totalInputSize: totalInput,
             totalOutputSize: totalOutput,
             ratio: totalInput > 0 ? totalOutput / totalInput : 0,
-            compressor,
+            compressor: compressorSummary(results),
+            maxSizeUnmet: results.filter((r) => r.maxSizeMet === false).length,
+            ssimUnmet: results.filter((r) => r.ssimMet === false).length,
+            dryRun: opts.dryRun,
           },
         }, null, 2)
       );
     } else {
-      const totalInput = results.reduce((s, r) => s + r.inputSize, 0);
-      const totalOutput = results.reduce((s, r) => s + r.outputSize, 0);
-      const reduction = Math.round((1 - totalOutput / totalInput) * 100);
-      console.log(`\nProcessed ${results.length} files: ${formatSize(totalInput)} → ${formatSize(totalOutput)} (${reduction}% reduction)`);
+      const reduction = totalInput > 0 ? Math.round((1 - totalOutput / totalInput) * 100) : 0;
+      const verb = opts.dryRun ? "Would compress" : "Processed";
+      console.log(`\n${verb} ${results.length} files: ${formatSize(totalInput)} → ${formatSize(totalOutput)} (${reduction}% reduction)`);
+      if (opts.dryRun) console.log(`Projected savings: ${formatSize(totalInput - totalOutput)}`);
+      if (skipped.length > 0) console.log(`Skipped ${skipped.length} file(s) already compressed or unchanged (--force to redo)`);
+      const unmet = results.filter((r) => r.maxSizeMet === false).length;
+      if (unmet > 0) console.log(`${unmet} file(s) still over --max-size ${formatSize(opts.maxSize!)}`);
+      const blurry = results.filter((r) => r.ssimMet === false).length;
+      if (blurry > 0) console.log(`${blurry} file(s) under --min-ssim ${opts.minSsim} even at quality 100`);
     }
   } else {
     try {
-      const r = await processFile(compressor, input, opts);
+      const r = await handleFile(compressorFor, input, opts, findManifest(dirname(input)));
+      if (isSkipped(r)) {
+        if (opts.json) console.log(JSON.stringify(r, null, 2));
+        else console.log(`Skipped ${r.input} (${r.reason}; --force to redo)`);
+        return;
+      }
       if (opts.json) {
         console.log(JSON.stringify(r, null, 2));
       } else {
-        const reduction = Math.round((1 - r.ratio) * 100);
-        console.log(`${r.input} → ${r.output} (${formatSize(r.inputSize)} → ${formatSize(r.outputSize)}, ${reduction}% reduction)`);
+        console.log(describeResult(r, opts));
       }
+      warnUnmetTarget(r, opts);
     } catch (e) {
       console.error(`Error: ${(e as Error).message}`);
       process.exit(1);
@@ -0,0 +1,77 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join, relative, resolve } from "path";
+
+export const MANIFEST_NAME = ".compress-manifest.json";
+const MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+  // Paths are relative to the manifest's directory.
+  input: string;
+  // Where the original was moved aside (`_original`), or null if it was kept or replaced in place.
+  original: string | null;
+  output: string;
+  outputHash: string;
+  settings: string;
+  inputSize: number;
+  outputSize: number;
+  compressedAt: string;
+}
+
+export interface Manifest {
+  dir: string;
+  // Keyed by the SHA-256 of the input file.
+  entries: Record<string, ManifestEntry>;
+}
+
+export function hashFile(file: string): string {
+  return createHash("sha256").update(readFileSync(file)).digest("hex");
+}
+
+export function loadManifest(dir: string): Manifest {
+  const manifest: Manifest = { dir: resolve(dir), entries: {} };
+  const file = join(dir, MANIFEST_NAME);
+  if (!existsSync(file)) return manifest;
+  try {
+    const data = JSON.parse(readFileSync(file, "utf-8"));
+    if (data && typeof data.entries === "object") manifest.entries = data.entries;
+  } catch {
+    console.error(`Warning: ignoring unreadable manifest ${file}`);
+  }
+  return manifest;
+}
+
+// A single-file run only uses a manifest the folder already has, so it never
+// leaves a new dotfile next to the user's image.
+export function findManifest(dir: string): Manifest | null {
+  return existsSync(join(dir, MANIFEST_NAME)) ? loadManifest(dir) : null;
+}
+
+// Written after every file so an interrupted run resumes where it stopped.
+export function saveManifest(manifest: Manifest): void {
+  const file = join(manifest.dir, MANIFEST_NAME);
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, JSON.stringify({ version: MANIFEST_VERSION, entries: manifest.entries }, null, 2) + "\n");
+  renameSync(tmp, file);
+}
+
+export function relativePath(manifest: Manifest, file: string): string {
+  return relative(manifest.dir, file);
+}
+
+export function absolutePath(manifest: Manifest, rel: string): string {
+  return resolve(manifest.dir, rel);
+}
+
+// Why a file with this hash needs no work, or null if it should be compressed.
+export function skipReason(manifest: Manifest, hash: string, settings: string): string | null {
+  const entry = manifest.entries[hash];
+  if (entry && entry.settings === settings) {
+    const output = absolutePath(manifest, entry.output);
+    if (existsSync(output) && hashFile(output) === entry.outputHash) return `unchanged, see ${entry.output}`;
+  }
+  for (const e of Object.values(manifest.entries)) {
+    if (e.outputHash === hash) return "already compressed";
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+import { readFileSync } from "fs";
+
+// Reads just enough of the container to tell animation and transparency apart,
+// without depending on sharp being installed.
+
+export interface ImageInfo {
+  format: "gif" | "webp" | "png" | "jpeg" | "other";
+  animated: boolean;
+  frames: number;
+  hasAlpha: boolean;
+}
+
+function ascii(buf: Buffer, start: number, length: number): string {
+  return buf.toString("latin1", start, start + length);
+}
+
+function skipGifSubBlocks(buf: Buffer, pos: number): number {
+  while (pos < buf.length && buf[pos] !== 0) pos += buf[pos] + 1;
+  return pos + 1;
+}
+
+function probeGif(buf: Buffer): ImageInfo {
+  let frames = 0;
+  let hasAlpha = false;
+  let pos = 13;
+  if (buf[10] & 0x80) pos += 3 * (1 << ((buf[10] & 0x07) + 1));
+  while (pos < buf.length) {
+    const block = buf[pos];
+    if (block === 0x21) {
+      // Graphic control extension: bit 0 of its packed byte is the transparency flag.
+      if (buf[pos + 1] === 0xf9 && buf[pos + 3] & 0x01) hasAlpha = true;
+      pos = skipGifSubBlocks(buf, pos + 2);
+    } else if (block === 0x2c) {
+      frames++;
+      const packed = buf[pos + 9];
+      pos += 10;
+      if (packed & 0x80) pos += 3 * (1 << ((packed & 0x07) + 1));
+      pos = skipGifSubBlocks(buf, pos + 1);
+    } else {
+      break;
+    }
+  }
+  return { format: "gif", animated: frames > 1, frames: Math.max(frames, 1), hasAlpha };
+}
+
+function probeWebp(buf: Buffer): ImageInfo {
+  const first = ascii(buf, 12, 4);
+  if (first === "VP8L") return { format: "webp", animated: false, frames: 1, hasAlpha: !!((buf[24] >> 4) & 0x01) };
+  if (first !== "VP8X") return { format: "webp", animated: false, frames: 1, hasAlpha: false };
+
+  const flags = buf[20];
+  let frames = 0;
+  for (let pos = 12; pos + 8 <= buf.length; ) {
+    if (ascii(buf, pos, 4) === "ANMF") frames++;
+    const size = buf.readUInt32LE(pos + 4);
+    pos += 8 + size + (size % 2);
+  }
+  const animated = !!(flags & 0x02) && frames > 1;
+  return { format: "webp", animated, frames: Math.max(frames, 1), hasAlpha: !!(flags & 0x10) };
+}
+
+function probePng(buf: Buffer): ImageInfo {
+  const colorType = buf[25];
+  let hasAlpha = colorType === 4 || colorType === 6;
+  let frames = 1;
+  // acTL and tRNS both come before the first IDAT.
+  for (let pos = 8; pos + 8 <= buf.length; ) {
+    const size = buf.readUInt32BE(pos);
+    const type = ascii(buf, pos + 4, 4);
+    if (type === "IDAT") break;
+    if (type === "acTL") frames = buf.readUInt32BE(pos + 8);
+    if (type === "tRNS") hasAlpha = true;
+    pos += 12 + size;
+  }
+  return { format: "png", animated: frames > 1, frames, hasAlpha };
+}
+
+export function probeImage(file: string): ImageInfo {
+  const buf = readFileSync(file);
+  if (ascii(buf, 0, 3) === "GIF") return probeGif(buf);
+  if (ascii(buf, 0, 4) === "RIFF" && ascii(buf, 8, 4) === "WEBP") return probeWebp(buf);
+  if (buf[0] === 0x89 && ascii(buf, 1, 3) === "PNG") return probePng(buf);
+  if (buf[0] === 0xff && buf[1] === 0xd8) return { format: "jpeg", animated: false, frames: 1, hasAlpha: false };
+  // Unknown containers (TIFF, AVIF) may carry alpha; assume they do so it isn't flattened away.
+  return { format: "other", animated: false, frames: 1, hasAlpha: true };
+}
@@ -0,0 +1,77 @@
+import type { CompressOptions } from "./compressors";
+
+// Mean SSIM over 8x8 windows (stride 4) of the luma channel, the usual fast
+// approximation of the Gaussian-window original. 1 means identical.
+
+const WINDOW = 8;
+const STRIDE = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+// Scores are computed at most this many pixels on the long side; text stays legible at this size.
+const MAX_SIDE = 2048;
+
+type Luma = { data: Buffer; width: number; height: number };
+
+async function decodeLuma(file: string, size: { width: number; height: number } | null, opts: CompressOptions): Promise<Luma> {
+  const sharp = (await import("sharp")).default;
+  let pipeline = sharp(file);
+  // The reference has to go through the same orientation and resize as the output did.
+  if (opts.stripMetadata) pipeline = pipeline.rotate();
+  if (size) pipeline = pipeline.resize(size.width, size.height, { fit: "fill" });
+  const { data, info } = await pipeline
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+function meanSsim(a: Luma, b: Luma): number {
+  const { width, height } = a;
+  if (width < WINDOW || height < WINDOW) return a.data.equals(b.data) ? 1 : 0;
+
+  let total = 0;
+  let windows = 0;
+  const n = WINDOW * WINDOW;
+  for (let y = 0; y + WINDOW <= height; y += STRIDE) {
+    for (let x = 0; x + WINDOW <= width; x += STRIDE) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let dy = 0; dy < WINDOW; dy++) {
+        const row = (y + dy) * width + x;
+        for (let dx = 0; dx < WINDOW; dx++) {
+          const pa = a.data[row + dx];
+          const pb = b.data[row + dx];
+          sumA += pa;
+          sumB += pb;
+          sumAA += pa * pa;
+          sumBB += pb * pb;
+          sumAB += pa * pb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + C1) * (2 * cov + C2)) / ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+  return total / windows;
+}
+
+// Compares an encoded output with its source, at the output's dimensions.
+export async function computeSsim(original: string, output: string, opts: CompressOptions = {}): Promise<number> {
+  const sharp = (await import("sharp")).default;
+  const meta = await sharp(output).metadata();
+  if (!meta.width || !meta.height) throw new Error(`Could not read image size: ${output}`);
+  const scale = Math.min(1, MAX_SIDE / Math.max(meta.width, meta.height));
+  const size = { width: Math.round(meta.width * scale), height: Math.round(meta.height * scale) };
+
+  const [a, b] = await Promise.all([decodeLuma(original, size, opts), decodeLuma(output, size, {})]);
+  return meanSsim(a, b);
+}
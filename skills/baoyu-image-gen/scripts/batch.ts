@@ -0,0 +1,181 @@
+import path from "node:path";
+import { readdir, readFile, stat } from "node:fs/promises";
+import type { BatchJob, Provider, Quality } from "./types";
+import { flattenVars } from "./template";
+
+const BACKUP_PROMPT_PATTERN = /-backup-\d{8}-\d{6}\.md$/;
+
+function toStringList(value: unknown, field: string, lineNo: number): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) return value as string[];
+  throw new Error(`Manifest line ${lineNo}: "${field}" must be a string or an array of strings`);
+}
+
+function optionalString(value: unknown, field: string, lineNo: number): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || !value) {
+    throw new Error(`Manifest line ${lineNo}: "${field}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function parseManifestLine(raw: Record<string, unknown>, lineNo: number, baseDir: string): BatchJob {
+  const resolvePath = (p: string) => path.resolve(baseDir, p);
+
+  const image = optionalString(raw.image, "image", lineNo);
+  if (!image) throw new Error(`Manifest line ${lineNo}: "image" is required`);
+
+  const prompt = optionalString(raw.prompt, "prompt", lineNo);
+  const promptFiles = raw.promptfiles !== undefined ? toStringList(raw.promptfiles, "promptfiles", lineNo).map(resolvePath) : [];
+  if (!prompt && promptFiles.length === 0) {
+    throw new Error(`Manifest line ${lineNo}: "prompt" or "promptfiles" is required`);
+  }
+
+  const provider = optionalString(raw.provider, "provider", lineNo);
+  if (
+    provider &&
+    !["google", "openai", "dashscope", "replicate", "sdwebui", "comfyui", "gemini-web", "mock"].includes(provider)
+  ) {
+    throw new Error(`Manifest line ${lineNo}: invalid provider: ${provider}`);
+  }
+
+  const quality = optionalString(raw.quality, "quality", lineNo);
+  if (quality && quality !== "normal" && quality !== "2k") {
+    throw new Error(`Manifest line ${lineNo}: invalid quality: ${quality}`);
+  }
+
+  const imageSize = optionalString(raw.imageSize, "imageSize", lineNo)?.toUpperCase() ?? null;
+  if (imageSize && imageSize !== "1K" && imageSize !== "2K" && imageSize !== "4K") {
+    throw new Error(`Manifest line ${lineNo}: invalid imageSize: ${imageSize}`);
+  }
+
+  const editImage = optionalString(raw.edit, "edit", lineNo);
+  const mask = optionalString(raw.mask, "mask", lineNo);
+  if (mask && !editImage) {
+    throw new Error(`Manifest line ${lineNo}: "mask" requires "edit"`);
+  }
+
+  let n: number | null = null;
+  if (raw.n !== undefined && raw.n !== null) {
+    if (typeof raw.n !== "number" || !Number.isInteger(raw.n) || raw.n < 1) {
+      throw new Error(`Manifest line ${lineNo}: invalid count: ${raw.n}`);
+    }
+    n = raw.n;
+  }
+
+  const imagePath = resolvePath(image);
+
+  return {
+    id: optionalString(raw.id, "id", lineNo) ?? path.basename(imagePath, path.extname(imagePath)),
+    prompt,
+    promptFiles,
+    imagePath,
+    provider: provider as Provider | null,
+    model: optionalString(raw.model, "model", lineNo),
+    aspectRatio: optionalString(raw.ar, "ar", lineNo),
+    size: optionalString(raw.size, "size", lineNo),
+    quality: quality as Quality | null,
+    imageSize,
+    referenceImages: raw.ref !== undefined ? toStringList(raw.ref, "ref", lineNo).map(resolvePath) : null,
+    editImage: editImage ? resolvePath(editImage) : null,
+    mask: mask ? resolvePath(mask) : null,
+    n,
+    vars: raw.vars !== undefined && raw.vars !== null ? flattenVars(raw.vars, `Manifest line ${lineNo}: "vars"`) : null,
+  };
+}
+
+async function loadManifestJobs(manifestPath: string): Promise<BatchJob[]> {
+  const content = await readFile(manifestPath, "utf8");
+  const baseDir = path.dirname(manifestPath);
+  const jobs: BatchJob[] = [];
+
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i]!.trim();
+    if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("//")) continue;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`Manifest line ${i + 1}: invalid JSON (${e instanceof Error ? e.message : String(e)})`);
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`Manifest line ${i + 1}: expected a JSON object`);
+    }
+    jobs.push(parseManifestLine(raw as Record<string, unknown>, i + 1, baseDir));
+  }
+
+  return jobs;
+}
+
+// A directory batch maps prompts/NN-name.md to <outDir>/NN-name.png, matching
+// the prompts/ + images layout used by slide-deck, comic and xhs-images.
+async function loadDirectoryJobs(dir: string, outDir: string | null): Promise<BatchJob[]> {
+  const targetDir = outDir ? path.resolve(outDir) : path.dirname(dir);
+  const names = (await readdir(dir))
+    .filter((n) => n.endsWith(".md") && !BACKUP_PROMPT_PATTERN.test(n))
+    .sort();
+
+  return names.map((name) => {
+    const id = path.basename(name, ".md");
+    return {
+      id,
+      prompt: null,
+      promptFiles: [path.join(dir, name)],
+      imagePath: path.join(targetDir, `${id}.png`),
+      provider: null,
+      model: null,
+      aspectRatio: null,
+      size: null,
+      quality: null,
+      imageSize: null,
+      referenceImages: null,
+      editImage: null,
+      mask: null,
+      n: null,
+      vars: null,
+    };
+  });
+}
+
+export async function loadBatchJobs(source: string, outDir: string | null): Promise<BatchJob[]> {
+  const full = path.resolve(source);
+  let isDir: boolean;
+  try {
+    isDir = (await stat(full)).isDirectory();
+  } catch {
+    throw new Error(`Batch source not found: ${full}`);
+  }
+
+  const jobs = isDir ? await loadDirectoryJobs(full, outDir) : await loadManifestJobs(full);
+  if (jobs.length === 0) throw new Error(`No jobs found in ${full}`);
+
+  const seen = new Set<string>();
+  for (const job of jobs) {
+    if (seen.has(job.imagePath)) throw new Error(`Duplicate output image in batch: ${job.imagePath}`);
+    seen.add(job.imagePath);
+  }
+
+  return jobs;
+}
+
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
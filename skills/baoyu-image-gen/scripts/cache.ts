@@ -0,0 +1,196 @@
+import path from "node:path";
+import { homedir } from "node:os";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "node:fs/promises";
+import type { Provider } from "./types";
+
+const CACHE_VERSION = 1;
+const META_FILE_NAME = "meta.json";
+
+export type CacheKeyInput = {
+  provider: Provider;
+  model: string;
+  prompt: string;
+  aspectRatio: string | null;
+  size: string | null;
+  quality: string | null;
+  imageSize: string | null;
+  n: number;
+  referenceImages: string[];
+  editImage: string | null;
+  mask: string | null;
+  // Provider settings outside the CLI flags that change the image (see getCacheKeyParts).
+  providerParts: Record<string, unknown>;
+  // `providers.<name>.params` from EXTEND.md, merged into the request body.
+  params: Record<string, unknown> | null;
+};
+
+export type CacheEntry = {
+  key: string;
+  provider: Provider;
+  model: string;
+  imageCount: number;
+  // Absent in entries written before seeds were recorded.
+  seeds?: Array<number | null>;
+  createdAt: string;
+};
+
+export function resolveCacheDir(): string {
+  const override = process.env.BAOYU_IMAGE_GEN_CACHE_DIR?.trim();
+  if (override) return path.resolve(override);
+  return path.join(homedir(), ".baoyu-skills", "baoyu-image-gen", "cache");
+}
+
+function entryDir(key: string): string {
+  return path.join(resolveCacheDir(), key.slice(0, 2), key);
+}
+
+function imageFileName(index: number): string {
+  return `image-${index + 1}`;
+}
+
+// Reference images are hashed by content, not path, so moving or renaming a
+// ref keeps the cache valid while editing it invalidates the entry.
+export async function computeCacheKey(input: CacheKeyInput): Promise<string> {
+  const hash = createHash("sha256");
+  hash.update(
+    JSON.stringify({
+      v: CACHE_VERSION,
+      provider: input.provider,
+      model: input.model,
+      prompt: input.prompt,
+      aspectRatio: input.aspectRatio,
+      size: input.size,
+      quality: input.quality,
+      imageSize: input.imageSize,
+      n: input.n,
+    })
+  );
+  for (const ref of input.referenceImages) {
+    const bytes = await readFile(ref);
+    hash.update(createHash("sha256").update(bytes).digest("hex"));
+  }
+  // Only mixed in when set, so keys of plain generations stay stable.
+  for (const [label, p] of [["edit", input.editImage], ["mask", input.mask]] as const) {
+    if (!p) continue;
+    hash.update(`${label}:${createHash("sha256").update(await readFile(p)).digest("hex")}`);
+  }
+  if (Object.keys(input.providerParts).length > 0) {
+    hash.update(`provider:${JSON.stringify(input.providerParts)}`);
+  }
+  if (input.params) hash.update(`params:${JSON.stringify(input.params)}`);
+  return hash.digest("hex");
+}
+
+export async function readCache(key: string): Promise<{ entry: CacheEntry; images: Uint8Array[] } | null> {
+  const dir = entryDir(key);
+  const metaPath = path.join(dir, META_FILE_NAME);
+  try {
+    const entry = JSON.parse(await readFile(metaPath, "utf8")) as CacheEntry;
+    const images: Uint8Array[] = [];
+    for (let i = 0; i < entry.imageCount; i++) {
+      images.push(new Uint8Array(await readFile(path.join(dir, imageFileName(i)))));
+    }
+    const now = new Date();
+    await utimes(metaPath, now, now);
+    return { entry, images };
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache(
+  key: string,
+  provider: Provider,
+  model: string,
+  images: Uint8Array[],
+  seeds: Array<number | null>
+): Promise<void> {
+  const dir = entryDir(key);
+  const tmp = `${dir}.tmp.${process.pid}.${Date.now()}`;
+  await mkdir(tmp, { recursive: true });
+
+  for (let i = 0; i < images.length; i++) {
+    await writeFile(path.join(tmp, imageFileName(i)), images[i]!);
+  }
+  const entry: CacheEntry = {
+    key,
+    provider,
+    model,
+    imageCount: images.length,
+    seeds,
+    createdAt: new Date().toISOString(),
+  };
+  await writeFile(path.join(tmp, META_FILE_NAME), JSON.stringify(entry, null, 2));
+
+  await rm(dir, { recursive: true, force: true });
+  await rename(tmp, dir);
+}
+
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/i);
+  if (!match) throw new Error(`Invalid duration: ${value} (expected e.g. 90m, 12h, 30d, 2w)`);
+  const amount = parseFloat(match[1]!);
+  const unit = match[2]!.toLowerCase();
+  const unitMs = unit === "m" ? 60_000 : unit === "h" ? 3_600_000 : unit === "d" ? 86_400_000 : 604_800_000;
+  return amount * unitMs;
+}
+
+async function dirSize(dir: string): Promise<number> {
+  let total = 0;
+  for (const name of await readdir(dir)) {
+    total += (await stat(path.join(dir, name))).size;
+  }
+  return total;
+}
+
+export async function pruneCache(olderThanMs: number): Promise<{ removed: number; kept: number; freedBytes: number }> {
+  const root = resolveCacheDir();
+  const cutoff = Date.now() - olderThanMs;
+  let removed = 0;
+  let kept = 0;
+  let freedBytes = 0;
+
+  let shards: string[];
+  try {
+    shards = await readdir(root);
+  } catch {
+    return { removed, kept, freedBytes };
+  }
+
+  for (const shard of shards) {
+    const shardDir = path.join(root, shard);
+    let keys: string[];
+    try {
+      keys = await readdir(shardDir);
+    } catch {
+      continue;
+    }
+
+    for (const key of keys) {
+      const dir = path.join(shardDir, key);
+      let lastUsed: number;
+      try {
+        lastUsed = (await stat(path.join(dir, META_FILE_NAME))).mtimeMs;
+      } catch {
+        // No meta.json: an in-progress or abandoned write, aged by the directory itself.
+        lastUsed = (await stat(dir)).mtimeMs;
+      }
+
+      if (lastUsed >= cutoff) {
+        kept++;
+        continue;
+      }
+
+      try {
+        freedBytes += await dirSize(dir);
+      } catch {}
+      await rm(dir, { recursive: true, force: true });
+      removed++;
+    }
+
+    if ((await readdir(shardDir)).length === 0) await rm(shardDir, { recursive: true, force: true });
+  }
+
+  return { removed, kept, freedBytes };
+}
@@ -0,0 +1,475 @@
+import path from "node:path";
+import process from "node:process";
+import { homedir } from "node:os";
+import { readFile } from "node:fs/promises";
+import { LineCounter, isMap, isScalar, isSeq, parseDocument, type Node, type YAMLMap } from "yaml";
+import type { BudgetConfig, ExtendConfig, PriceEntry, Provider, ProviderSettings, Quality } from "./types";
+
+export const PROVIDERS: Provider[] = ["google", "openai", "dashscope", "replicate", "sdwebui", "comfyui", "gemini-web", "mock"];
+
+const LAYER_KEYS = [
+  "default_provider",
+  "provider_chain",
+  "default_quality",
+  "default_aspect_ratio",
+  "default_image_size",
+  "default_model",
+  "providers",
+  "pricing",
+  "budget",
+];
+const TOP_LEVEL_KEYS = ["version", ...LAYER_KEYS, "profiles"];
+const PROVIDER_SETTING_KEYS = ["base_url", "proxy", "timeout_ms", "params"];
+const PRICE_KEYS: Array<keyof PriceEntry> = ["per_image", "per_million_input_tokens", "per_million_output_tokens"];
+const BUDGET_KEYS: Array<keyof BudgetConfig> = ["daily_usd", "monthly_usd"];
+const QUALITIES: Quality[] = ["normal", "2k"];
+const IMAGE_SIZES = ["1K", "2K", "4K"] as const;
+
+export type LoadedConfig = {
+  path: string | null;
+  profile: string | null;
+  profiles: string[];
+  config: Partial<ExtendConfig>;
+  // Dotted key (e.g. "default_model.google") -> where the value was set.
+  sources: Record<string, string>;
+};
+
+type Layer = { config: Partial<ExtendConfig>; sources: Record<string, string> };
+
+type ParseContext = {
+  file: string;
+  lineCounter: LineCounter;
+  lineOffset: number;
+  errors: string[];
+  warnings: string[];
+};
+
+export function isProvider(value: string): value is Provider {
+  return (PROVIDERS as string[]).includes(value);
+}
+
+export function getExtendConfigPaths(): string[] {
+  return [
+    path.join(process.cwd(), ".baoyu-skills", "baoyu-image-gen", "EXTEND.md"),
+    path.join(homedir(), ".baoyu-skills", "baoyu-image-gen", "EXTEND.md"),
+  ];
+}
+
+function extractYamlFrontMatter(content: string): { yaml: string; lineOffset: number } | null {
+  const match = content.match(/^---\s*\n([\s\S]*?)\n---\s*$/m);
+  if (!match) return null;
+  // Lines before the YAML body: everything up to the match plus the opening "---".
+  const lineOffset = content.slice(0, match.index).split("\n").length;
+  return { yaml: match[1]!, lineOffset };
+}
+
+function lineOf(ctx: ParseContext, node: Node | null | undefined): number {
+  const offset = node?.range?.[0] ?? 0;
+  return ctx.lineCounter.linePos(offset).line + ctx.lineOffset;
+}
+
+function at(ctx: ParseContext, node: Node | null | undefined): string {
+  return `${ctx.file}:${lineOf(ctx, node)}`;
+}
+
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0]!;
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j]!;
+      dp[j] = Math.min(dp[j]! + 1, dp[j - 1]! + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length]!;
+}
+
+function unknownKey(ctx: ParseContext, node: Node, key: string, where: string, allowed: string[]): void {
+  const suggestion = allowed.find((k) => editDistance(key, k) <= 2);
+  const hint = suggestion ? ` (did you mean "${suggestion}"?)` : ` (expected one of: ${allowed.join(", ")})`;
+  ctx.warnings.push(`${at(ctx, node)}: unknown key "${key}" in ${where}${hint}`);
+}
+
+function entries(ctx: ParseContext, node: Node | null, where: string): Array<[string, Node | null, Node]> {
+  if (!isMap(node)) {
+    ctx.errors.push(`${at(ctx, node)}: ${where} must be a mapping`);
+    return [];
+  }
+  const out: Array<[string, Node | null, Node]> = [];
+  for (const pair of (node as YAMLMap<Node, Node | null>).items) {
+    const key = pair.key;
+    if (!isScalar(key) || typeof key.value !== "string") {
+      ctx.errors.push(`${at(ctx, key)}: keys in ${where} must be strings`);
+      continue;
+    }
+    out.push([key.value, pair.value ?? null, key]);
+  }
+  return out;
+}
+
+function isNull(node: Node | null): boolean {
+  return node === null || (isScalar(node) && node.value === null);
+}
+
+function readString(ctx: ParseContext, node: Node | null, key: string): string | null | undefined {
+  if (isNull(node)) return null;
+  if (isScalar(node) && typeof node.value === "string") return node.value;
+  ctx.errors.push(`${at(ctx, node)}: ${key} must be a string (quote it if it looks like a number)`);
+  return undefined;
+}
+
+function readEnum<T extends string>(ctx: ParseContext, node: Node | null, key: string, allowed: readonly T[]): T | null | undefined {
+  if (isNull(node)) return null;
+  const value = isScalar(node) ? String(node.value) : null;
+  if (value !== null && (allowed as readonly string[]).includes(value)) return value as T;
+  ctx.errors.push(`${at(ctx, node)}: invalid ${key} ${JSON.stringify(value ?? "(non-scalar)")}; expected ${allowed.join("|")}`);
+  return undefined;
+}
+
+function readUrl(ctx: ParseContext, node: Node | null, key: string): string | null | undefined {
+  const value = readString(ctx, node, key);
+  if (!value) return value;
+  try {
+    new URL(value);
+    return value;
+  } catch {
+    ctx.errors.push(`${at(ctx, node)}: ${key} is not a valid URL: ${value}`);
+    return undefined;
+  }
+}
+
+function readAmount(ctx: ParseContext, node: Node | null, key: string): number | null | undefined {
+  if (isNull(node)) return null;
+  if (isScalar(node) && typeof node.value === "number" && Number.isFinite(node.value) && node.value >= 0) return node.value;
+  ctx.errors.push(`${at(ctx, node)}: ${key} must be a non-negative number (USD)`);
+  return undefined;
+}
+
+function readProviderChain(ctx: ParseContext, node: Node | null): Provider[] | null | undefined {
+  if (isNull(node)) return null;
+  if (!isSeq(node)) {
+    ctx.errors.push(`${at(ctx, node)}: provider_chain must be a list, e.g. [google, openai]`);
+    return undefined;
+  }
+  const chain: Provider[] = [];
+  let valid = true;
+  for (const item of node.items as Array<Node | null>) {
+    const value = readEnum(ctx, item, "provider in provider_chain", PROVIDERS);
+    if (value) chain.push(value);
+    else valid = false;
+  }
+  return valid ? chain : undefined;
+}
+
+function readProviderSettings(ctx: ParseContext, node: Node | null, provider: Provider, layer: Layer, label: (n: Node) => string): ProviderSettings {
+  const settings: ProviderSettings = { base_url: null, proxy: null, timeout_ms: null, params: null };
+  if (isNull(node)) return settings;
+
+  for (const [key, value, keyNode] of entries(ctx, node, `providers.${provider}`)) {
+    const sourceKey = `providers.${provider}.${key}`;
+    if (key === "base_url" || key === "proxy") {
+      const url = readUrl(ctx, value, sourceKey);
+      if (url === undefined) continue;
+      settings[key] = url;
+    } else if (key === "timeout_ms") {
+      if (isNull(value)) {
+        settings.timeout_ms = null;
+      } else if (isScalar(value) && Number.isInteger(value.value) && (value.value as number) > 0) {
+        settings.timeout_ms = value.value as number;
+      } else {
+        ctx.errors.push(`${at(ctx, value)}: ${sourceKey} must be a positive integer (milliseconds)`);
+        continue;
+      }
+    } else if (key === "params") {
+      if (isNull(value)) {
+        settings.params = null;
+      } else if (isMap(value)) {
+        settings.params = value.toJSON() as Record<string, unknown>;
+      } else {
+        ctx.errors.push(`${at(ctx, value)}: ${sourceKey} must be a mapping of request fields`);
+        continue;
+      }
+    } else {
+      unknownKey(ctx, keyNode, key, `providers.${provider}`, PROVIDER_SETTING_KEYS);
+      continue;
+    }
+    layer.sources[sourceKey] = label(keyNode);
+  }
+  return settings;
+}
+
+// Keys are "<provider>/<model>" or a bare "<provider>" that prices all its models.
+function readPricing(ctx: ParseContext, node: Node | null, layer: Layer, label: (n: Node) => string): ExtendConfig["pricing"] {
+  const pricing: ExtendConfig["pricing"] = {};
+  if (isNull(node)) return pricing;
+
+  for (const [priceKey, entryNode, priceKeyNode] of entries(ctx, node, "pricing")) {
+    const provider = priceKey.split("/")[0]!;
+    if (!isProvider(provider)) {
+      unknownKey(ctx, priceKeyNode, provider, "pricing (keys are <provider>/<model>)", PROVIDERS);
+      continue;
+    }
+    const entry: PriceEntry = { per_image: null, per_million_input_tokens: null, per_million_output_tokens: null };
+    let valid = true;
+    for (const [key, value, keyNode] of entries(ctx, entryNode, `pricing.${priceKey}`)) {
+      if (!(PRICE_KEYS as string[]).includes(key)) {
+        unknownKey(ctx, keyNode, key, `pricing.${priceKey}`, PRICE_KEYS);
+        continue;
+      }
+      const amount = readAmount(ctx, value, `pricing.${priceKey}.${key}`);
+      if (amount === undefined) valid = false;
+      else entry[key as keyof PriceEntry] = amount;
+    }
+    if (!valid) continue;
+    pricing[priceKey] = entry;
+    layer.sources[`pricing.${priceKey}`] = label(priceKeyNode);
+  }
+  return pricing;
+}
+
+function readBudget(ctx: ParseContext, node: Node | null, layer: Layer, label: (n: Node) => string): Partial<BudgetConfig> {
+  const budget: Partial<BudgetConfig> = {};
+  if (isNull(node)) return budget;
+
+  for (const [key, value, keyNode] of entries(ctx, node, "budget")) {
+    if (!(BUDGET_KEYS as string[]).includes(key)) {
+      unknownKey(ctx, keyNode, key, "budget", BUDGET_KEYS);
+      continue;
+    }
+    const amount = readAmount(ctx, value, `budget.${key}`);
+    if (amount === undefined) continue;
+    budget[key as keyof BudgetConfig] = amount;
+    layer.sources[`budget.${key}`] = label(keyNode);
+  }
+  return budget;
+}
+
+// Reads the keys shared by the top level and profiles.
+function readLayer(
+  ctx: ParseContext,
+  pairs: Array<[string, Node | null, Node]>,
+  where: string,
+  allowed: string[],
+  label: (n: Node) => string
+): Layer {
+  const layer: Layer = { config: {}, sources: {} };
+  const { config } = layer;
+
+  for (const [key, value, keyNode] of pairs) {
+    let parsed = true;
+    if (key === "default_provider") {
+      const v = readEnum(ctx, value, key, PROVIDERS);
+      if (v !== undefined) config.default_provider = v;
+      else parsed = false;
+    } else if (key === "provider_chain") {
+      const v = readProviderChain(ctx, value);
+      if (v !== undefined) config.provider_chain = v;
+      else parsed = false;
+    } else if (key === "default_quality") {
+      const v = readEnum(ctx, value, key, QUALITIES);
+      if (v !== undefined) config.default_quality = v;
+      else parsed = false;
+    } else if (key === "default_aspect_ratio") {
+      const v = readString(ctx, value, key);
+      if (v && !/^\d+(?:\.\d+)?:\d+(?:\.\d+)?$/.test(v)) {
+        ctx.errors.push(`${at(ctx, value)}: invalid default_aspect_ratio "${v}"; expected W:H, e.g. "16:9"`);
+        parsed = false;
+      } else if (v !== undefined) {
+        config.default_aspect_ratio = v;
+      } else {
+        parsed = false;
+      }
+    } else if (key === "default_image_size") {
+      const v = readEnum(ctx, value, key, IMAGE_SIZES);
+      if (v !== undefined) config.default_image_size = v;
+      else parsed = false;
+    } else if (key === "default_model") {
+      const models: Partial<ExtendConfig["default_model"]> = {};
+      if (!isNull(value)) {
+        for (const [provider, modelNode, providerKey] of entries(ctx, value, "default_model")) {
+          if (!isProvider(provider)) {
+            unknownKey(ctx, providerKey, provider, "default_model", PROVIDERS);
+            continue;
+          }
+          const model = readString(ctx, modelNode, `default_model.${provider}`);
+          if (model === undefined) continue;
+          models[provider] = model;
+          layer.sources[`default_model.${provider}`] = label(providerKey);
+        }
+      }
+      config.default_model = models as ExtendConfig["default_model"];
+      continue;
+    } else if (key === "providers") {
+      const providers: ExtendConfig["providers"] = {};
+      if (!isNull(value)) {
+        for (const [provider, settingsNode, providerKey] of entries(ctx, value, "providers")) {
+          if (!isProvider(provider)) {
+            unknownKey(ctx, providerKey, provider, "providers", PROVIDERS);
+            continue;
+          }
+          providers[provider] = readProviderSettings(ctx, settingsNode, provider, layer, label);
+        }
+      }
+      config.providers = providers;
+      continue;
+    } else if (key === "pricing") {
+      config.pricing = readPricing(ctx, value, layer, label);
+      continue;
+    } else if (key === "budget") {
+      config.budget = { daily_usd: null, monthly_usd: null, ...readBudget(ctx, value, layer, label) };
+      continue;
+    } else {
+      unknownKey(ctx, keyNode, key, where, allowed);
+      continue;
+    }
+    if (parsed) layer.sources[key] = label(keyNode);
+  }
+
+  return layer;
+}
+
+function applyProfile(base: Layer, profile: Layer): Layer {
+  const config: Partial<ExtendConfig> = { ...base.config, ...profile.config };
+  const sources: Record<string, string> = { ...base.sources, ...profile.sources };
+
+  // A profile that picks a default_provider replaces the base provider_chain,
+  // which would otherwise take precedence over it.
+  if (profile.config.default_provider !== undefined && profile.config.provider_chain === undefined && base.config.provider_chain) {
+    config.provider_chain = null;
+    delete sources.provider_chain;
+  }
+
+  if (base.config.default_model || profile.config.default_model) {
+    config.default_model = { ...base.config.default_model, ...profile.config.default_model } as ExtendConfig["default_model"];
+  }
+
+  if (base.config.providers || profile.config.providers) {
+    const providers: ExtendConfig["providers"] = { ...base.config.providers };
+    for (const [provider, settings] of Object.entries(profile.config.providers ?? {}) as Array<[Provider, ProviderSettings]>) {
+      const current = providers[provider];
+      const set = (key: keyof ProviderSettings) => `providers.${provider}.${key}` in profile.sources;
+      // Profile params add to (or override) the base params instead of replacing them.
+      let params = current?.params ?? null;
+      if (set("params")) params = settings.params ? { ...params, ...settings.params } : null;
+      providers[provider] = {
+        base_url: set("base_url") ? settings.base_url : current?.base_url ?? null,
+        proxy: set("proxy") ? settings.proxy : current?.proxy ?? null,
+        timeout_ms: set("timeout_ms") ? settings.timeout_ms : current?.timeout_ms ?? null,
+        params,
+      };
+    }
+    config.providers = providers;
+  }
+
+  if (base.config.pricing || profile.config.pricing) {
+    config.pricing = { ...base.config.pricing, ...profile.config.pricing };
+  }
+
+  // Only the budget limits the profile sets replace the base ones.
+  if (base.config.budget || profile.config.budget) {
+    const set = (key: keyof BudgetConfig) => `budget.${key}` in profile.sources;
+    config.budget = {
+      daily_usd: set("daily_usd") ? profile.config.budget!.daily_usd : base.config.budget?.daily_usd ?? null,
+      monthly_usd: set("monthly_usd") ? profile.config.budget!.monthly_usd : base.config.budget?.monthly_usd ?? null,
+    };
+  }
+
+  return { config, sources };
+}
+
+export function parseExtendConfig(yaml: string, file: string, lineOffset: number, profile: string | null): LoadedConfig {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yaml, { lineCounter, prettyErrors: false });
+  const ctx: ParseContext = { file, lineCounter, lineOffset, errors: [], warnings: [] };
+
+  for (const err of doc.errors) {
+    const line = (err.linePos?.[0]?.line ?? 1) + lineOffset;
+    ctx.errors.push(`${file}:${line}: ${err.message.split("\n")[0]}`);
+  }
+  if (ctx.errors.length > 0) throw new Error(`Invalid EXTEND.md:\n  ${ctx.errors.join("\n  ")}`);
+
+  const root = doc.contents as Node | null;
+  const pairs = isNull(root) ? [] : entries(ctx, root, "EXTEND.md front matter");
+
+  const versionPair = pairs.find(([key]) => key === "version");
+  let version = 1;
+  if (versionPair && !isNull(versionPair[1])) {
+    const value = versionPair[1];
+    if (isScalar(value) && value.value === 1) version = 1;
+    else ctx.errors.push(`${at(ctx, value)}: unsupported version ${JSON.stringify(isScalar(value) ? value.value : null)}; expected 1`);
+  }
+
+  const base = readLayer(
+    ctx,
+    pairs.filter(([key]) => key !== "version" && key !== "profiles"),
+    "EXTEND.md",
+    TOP_LEVEL_KEYS,
+    (n) => at(ctx, n)
+  );
+
+  const profileLayers = new Map<string, Layer>();
+  const profilesPair = pairs.find(([key]) => key === "profiles");
+  if (profilesPair && !isNull(profilesPair[1])) {
+    for (const [name, value] of entries(ctx, profilesPair[1], "profiles")) {
+      if (isNull(value)) {
+        profileLayers.set(name, { config: {}, sources: {} });
+        continue;
+      }
+      const profilePairs = entries(ctx, value, `profiles.${name}`);
+      for (const [key, , keyNode] of profilePairs) {
+        if (key === "version" || key === "profiles") ctx.errors.push(`${at(ctx, keyNode)}: ${key} cannot be set inside a profile`);
+      }
+      const layer = readLayer(
+        ctx,
+        profilePairs.filter(([key]) => key !== "version" && key !== "profiles"),
+        `profiles.${name}`,
+        LAYER_KEYS,
+        (n) => `profile "${name}" at ${at(ctx, n)}`
+      );
+      profileLayers.set(name, layer);
+    }
+  }
+
+  for (const warning of ctx.warnings) console.error(`Warning: ${warning}`);
+  if (ctx.errors.length > 0) throw new Error(`Invalid EXTEND.md:\n  ${ctx.errors.join("\n  ")}`);
+
+  let resolved = base;
+  if (profile) {
+    const layer = profileLayers.get(profile);
+    if (!layer) {
+      const available = [...profileLayers.keys()];
+      throw new Error(
+        `Unknown profile "${profile}" in ${file}` + (available.length ? ` (available: ${available.join(", ")})` : " (no profiles defined)")
+      );
+    }
+    resolved = applyProfile(base, layer);
+  }
+
+  return {
+    path: file,
+    profile,
+    profiles: [...profileLayers.keys()],
+    config: { ...resolved.config, version },
+    sources: resolved.sources,
+  };
+}
+
+// Uses the first EXTEND.md found (project before user); files are not merged.
+export async function loadExtendConfig(profile: string | null = null): Promise<LoadedConfig> {
+  for (const p of getExtendConfigPaths()) {
+    let content: string;
+    try {
+      content = await readFile(p, "utf8");
+    } catch {
+      continue;
+    }
+    const frontMatter = extractYamlFrontMatter(content);
+    if (!frontMatter) continue;
+    return parseExtendConfig(frontMatter.yaml, p, frontMatter.lineOffset, profile);
+  }
+
+  if (profile) throw new Error(`--profile ${profile} requires an EXTEND.md with a profiles section`);
+  return { path: null, profile: null, profiles: [], config: {}, sources: {} };
+}
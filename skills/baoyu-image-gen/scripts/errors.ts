@@ -0,0 +1,129 @@
+import type { Provider } from "./types";
+
+export class ProviderError extends Error {
+  readonly provider: Provider;
+  readonly status: number | null;
+
+  constructor(provider: Provider, message: string, status: number | null = null) {
+    super(message);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  readonly retryAfterMs: number | null;
+
+  constructor(provider: Provider, message: string, status: number | null = 429, retryAfterMs: number | null = null) {
+    super(provider, message, status);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+export class SafetyError extends ProviderError {
+  constructor(provider: Provider, message: string, status: number | null = null) {
+    super(provider, message, status);
+    this.name = "SafetyError";
+  }
+}
+
+export class AuthError extends ProviderError {
+  constructor(provider: Provider, message: string, status: number | null = null) {
+    super(provider, message, status);
+    this.name = "AuthError";
+  }
+}
+
+export class BadRequestError extends ProviderError {
+  constructor(provider: Provider, message: string, status: number | null = null) {
+    super(provider, message, status);
+    this.name = "BadRequestError";
+  }
+}
+
+// The provider accepted the job but it didn't finish in time. Not retried: another
+// attempt would start (and bill) a second job while the first may still complete.
+export class JobTimeoutError extends ProviderError {
+  constructor(provider: Provider, message: string) {
+    super(provider, message);
+    this.name = "JobTimeoutError";
+  }
+}
+
+export class ServerError extends ProviderError {
+  constructor(provider: Provider, message: string, status: number | null = null) {
+    super(provider, message, status);
+    this.name = "ServerError";
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+// Error codes providers put in 400 bodies when the prompt or output is refused
+// by a content filter rather than being malformed.
+const SAFETY_CODES = [
+  "content_policy_violation",
+  "moderation_blocked",
+  "DataInspectionFailed",
+  "IMAGE_SAFETY",
+  "PROHIBITED_CONTENT",
+];
+
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const seconds = trimmed.match(/^(\d+(?:\.\d+)?)s?$/);
+  if (seconds) return Math.round(parseFloat(seconds[1]!) * 1000);
+
+  const date = Date.parse(trimmed);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+export function classifyHttpError(
+  provider: Provider,
+  status: number,
+  message: string,
+  retryAfterMs: number | null = null
+): ProviderError {
+  if (status === 429) return new RateLimitError(provider, message, status, retryAfterMs);
+  if (status === 401 || status === 403) return new AuthError(provider, message, status);
+  if (SAFETY_CODES.some((code) => message.includes(code))) return new SafetyError(provider, message, status);
+  if (status >= 500) return new ServerError(provider, message, status);
+  return new BadRequestError(provider, message, status);
+}
+
+export async function providerErrorFromResponse(provider: Provider, res: Response, label: string): Promise<ProviderError> {
+  const body = await res.text();
+  return classifyHttpError(
+    provider,
+    res.status,
+    `${label} (${res.status}): ${body}`,
+    parseRetryAfter(res.headers.get("retry-after"))
+  );
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.retryable;
+  // Untyped errors are network failures, timeouts or malformed responses.
+  return true;
+}
+
+export function describeError(error: unknown): { type: string; message: string } {
+  if (error instanceof Error) return { type: error.name, message: error.message };
+  return { type: "Error", message: String(error) };
+}
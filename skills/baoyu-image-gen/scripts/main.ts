@@ -1,30 +1,92 @@
 import path from "node:path";
 import process from "node:process";
+import { existsSync } from "node:fs";
 import { homedir } from "node:os";
 import { access, mkdir, readFile, writeFile } from "node:fs/promises";
-import type { CliArgs, Provider, ExtendConfig } from "./types";
+import type { BatchJob, CliArgs, OutputFormat, PriceEntry, Provider, ExtendConfig, SeededImages } from "./types";
+import { loadBatchJobs, runWithConcurrency } from "./batch";
+import { computeCacheKey, parseDuration, pruneCache, readCache, resolveCacheDir, writeCache } from "./cache";
+import { PROVIDERS, isProvider, loadExtendConfig, type LoadedConfig } from "./config";
+import { describeError } from "./errors";
+import { getFormatExtension, parseDimensions, postprocessImage, readImageSize, type Dimensions } from "./postprocess";
+import { getProviderSettings, resolveBaseUrl, setProviderSettings } from "./provider-settings";
+import { buildProvenance, embedProvenance, writeSidecar, type ProvenanceRecord } from "./provenance";
+import { DEFAULT_RETRY_POLICY, withRetry } from "./retry";
+import { assertValidSessionId, deleteSession, listSessions, pruneSessions, resolveSessionsDir } from "./sessions";
+import { estimateTokens, loadVarsFile, parseVarAssignment, renderTemplate, type RenderOptions } from "./template";
+import {
+  appendUsage,
+  assertWithinBudget,
+  estimateCost,
+  formatUsd,
+  getBudgetStatus,
+  hasBudget,
+  hasPrice,
+  readUsage,
+  resolvePricing,
+  resolveUsageLedgerPath,
+  summarizeUsage,
+  totalUsage,
+  trackTokenUsage,
+  type UsageGroupBy,
+} from "./usage";
 
 function printUsage(): void {
   console.log(`Usage:
   npx -y bun scripts/main.ts --prompt "A cat" --image cat.png
   npx -y bun scripts/main.ts --prompt "A landscape" --image landscape.png --ar 16:9
   npx -y bun scripts/main.ts --promptfiles system.md content.md --image out.png
+  npx -y bun scripts/main.ts --batch jobs.jsonl --concurrency 4 --json
+  npx -y bun scripts/main.ts --batch prompts/ --ar 16:9 --skip-existing
 
 Options:
   -p, --prompt <text>       Prompt text
   --promptfiles <files...>  Read prompt from files (concatenated)
   --image <path>            Output image path (required)
-  --provider google|openai|dashscope|replicate  Force provider (auto-detect by default)
+  --provider <name>         google|openai|dashscope|replicate|sdwebui|comfyui|gemini-web|mock (auto-detect by default;
+                            sdwebui/comfyui = local Stable Diffusion, gemini-web = Gemini web session,
+                            mock = offline placeholder)
   -m, --model <id>          Model ID
   --ar <ratio>              Aspect ratio (e.g., 16:9, 1:1, 4:3)
   --size <WxH>              Size (e.g., 1024x1024)
-  --quality normal|2k       Quality preset (default: 2k)
+  --quality normal|2k       Quality preset (default: 2k); a number 0-100 is the --format encoding quality
   --imageSize 1K|2K|4K      Image size for Google (default: from quality)
   --ref <files...>          Reference images (Google multimodal or OpenAI edits)
-  --n <count>               Number of images (default: 1)
+  --edit <image>            Edit this image per the prompt (OpenAI, Google, Replicate, SD-WebUI)
+  --mask <png>              Only change the masked region of --edit (OpenAI, Replicate, SD-WebUI)
+  --fit <WxH>               Resize/crop the result to exactly WxH (e.g. 900x383)
+  --fit-mode <mode>         cover (default, center crop) | contain (pad) | smart-crop (crop to the salient region)
+  --format webp|jpeg|png    Convert the result; replaces the --image extension
+  --n <count>               Number of images (default: 1); N > 1 saves <image>-1 … <image>-N
+  --batch <file|dir>        Run many jobs in one process: a JSONL manifest or a directory of prompt .md files
+  --outdir <dir>            Output directory for directory batches (default: parent of the prompts directory)
+  --concurrency <count>     Parallel jobs in batch mode (default: 1)
+  --skip-existing           Batch mode: skip jobs whose output image already exists
+  --no-cache                Don't read or write the generation cache
+  --refresh                 Regenerate even if cached, then update the cache
+  --no-sidecar              Don't write the <image>.json provenance sidecar
+  --embed-metadata          Also embed provenance in the image (PNG tEXt / JPEG XMP)
+  --profile <name>          Apply a named profile from EXTEND.md on top of its defaults
+  --ignore-budget           Generate even if the EXTEND.md budget is used up
+  --template                Render the prompt as a template ({{> include}}, {{#if}}, ...);
+                            implied by --var/--vars
+  --var <key=value>         Template variable for {{key}} in the prompt (repeatable)
+  --vars <file>             YAML/JSON file of template variables (--var wins)
+  --render-prompt           Print the rendered prompt with its char/token length; no generation
+  --session <id>            Continue a Gemini conversation: the prompt refines the session's last image
+                            (Google multimodal only; created on first use)
+  --list-sessions           List saved sessions (id, updated, turns, model, last prompt)
+  --delete-session <id>     Delete a saved session
+  --prune-sessions <age>    Delete sessions not continued for <age> (e.g. 7d)
   --json                    JSON output
   -h, --help                Show help
 
+Commands:
+  cache prune --older-than <age>  Remove cache entries unused for <age> (e.g. 12h, 30d, 2w)
+  config show [--profile <name>]  Print the effective EXTEND.md/env configuration and where each value comes from
+  usage [--by day|provider|project|model] [--since <age>]
+                                  Summarize the usage ledger (calls, images, tokens, estimated cost) and budget
+
 Environment variables:
   OPENAI_API_KEY            OpenAI API key
   GOOGLE_API_KEY            Google API key
@@ -35,11 +97,28 @@ Environment variables:
   GOOGLE_IMAGE_MODEL        Default Google model (gemini-3-pro-image-preview)
   DASHSCOPE_IMAGE_MODEL     Default DashScope model (z-image-turbo)
   REPLICATE_IMAGE_MODEL     Default Replicate model (google/nano-banana-pro)
+  SDWEBUI_IMAGE_MODEL       SD-WebUI checkpoint (default: currently loaded)
+  COMFYUI_IMAGE_MODEL       ComfyUI checkpoint for the {{model}} placeholder
+  GEMINI_WEB_IMAGE_MODEL    Default gemini-web model (gemini-3-pro)
+  GEMINI_WEB_COOKIE_PATH    Gemini web cookie file (shared with baoyu-danger-gemini-web)
+  MOCK_IMAGE_MODEL          Model name recorded by the mock provider (mock-placeholder)
   OPENAI_BASE_URL           Custom OpenAI endpoint
   OPENAI_IMAGE_USE_CHAT     Use /chat/completions instead of /images/generations (true|false)
   GOOGLE_BASE_URL           Custom Google endpoint
   DASHSCOPE_BASE_URL        Custom DashScope endpoint
   REPLICATE_BASE_URL        Custom Replicate endpoint
+  SDWEBUI_BASE_URL          AUTOMATIC1111 SD-WebUI URL (e.g. http://127.0.0.1:7860)
+  SDWEBUI_AUTH              SD-WebUI --api-auth credentials (user:pass)
+  COMFYUI_BASE_URL          ComfyUI URL (e.g. http://127.0.0.1:8188)
+  COMFYUI_WORKFLOW          ComfyUI workflow template (API format JSON with {{prompt}} etc.)
+  BAOYU_IMAGE_GEN_CACHE_DIR Cache directory (default: ~/.baoyu-skills/baoyu-image-gen/cache)
+  BAOYU_IMAGE_GEN_USAGE_FILE Usage ledger (default: ~/.baoyu-skills/baoyu-image-gen/usage.jsonl)
+  BAOYU_IMAGE_GEN_SESSIONS_DIR Session directory (default: ~/.baoyu-skills/baoyu-image-gen/sessions)
+  MOCK_IMAGE_FAIL           Mock provider failure: rate-limit|safety|timeout|auth|bad-request|server
+  MOCK_IMAGE_FAIL_TIMES     Fail only the first N mock calls, then succeed
+  MOCK_IMAGE_FAIL_MATCH     Fail only prompts containing this text
+  MOCK_IMAGE_RETRY_AFTER    Retry-After seconds for mock rate-limit failures (default: 1)
+  MOCK_IMAGE_DELAY_MS       Artificial latency per mock call
 
 Env file load order: CLI args > EXTEND.md > process.env > <cwd>/.baoyu-skills/.env > ~/.baoyu-skills/.env`);
 }
@@ -56,7 +135,31 @@ function parseArgs(argv: string[]): CliArgs {
     quality: null,
     imageSize: null,
     referenceImages: [],
+    editImage: null,
+    mask: null,
     n: 1,
+    fit: null,
+    fitMode: "cover",
+    format: null,
+    outputQuality: null,
+    batch: null,
+    outDir: null,
+    concurrency: 1,
+    skipExisting: false,
+    noCache: false,
+    refresh: false,
+    sidecar: true,
+    embedMetadata: false,
+    profile: null,
+    ignoreBudget: false,
+    session: null,
+    listSessions: false,
+    deleteSession: null,
+    pruneSessions: null,
+    template: false,
+    vars: {},
+    varsFile: null,
+    renderPrompt: false,
     json: false,
     help: false,
   };
@@ -112,7 +215,7 @@ function parseArgs(argv: string[]): CliArgs {
 
     if (a === "--provider") {
       const v = argv[++i];
-      if (v !== "google" && v !== "openai" && v !== "dashscope" && v !== "replicate") throw new Error(`Invalid provider: ${v}`);
+      if (!v || !isProvider(v)) throw new Error(`Invalid provider: ${v}`);
       out.provider = v;
       continue;
     }
@@ -140,11 +243,39 @@ function parseArgs(argv: string[]): CliArgs {
 
     if (a === "--quality") {
       const v = argv[++i];
+      // A number is the encoding quality for --format; normal|2k is the generation preset.
+      if (v && /^\d+$/.test(v)) {
+        const q = parseInt(v, 10);
+        if (q < 0 || q > 100) throw new Error(`Invalid quality: ${v} (expected 0-100)`);
+        out.outputQuality = q;
+        continue;
+      }
       if (v !== "normal" && v !== "2k") throw new Error(`Invalid quality: ${v}`);
       out.quality = v;
       continue;
     }
 
+    if (a === "--fit") {
+      const v = argv[++i];
+      if (!v || !parseDimensions(v)) throw new Error(`Invalid fit size: ${v} (expected WxH, e.g. 900x383)`);
+      out.fit = v;
+      continue;
+    }
+
+    if (a === "--fit-mode") {
+      const v = argv[++i];
+      if (v !== "cover" && v !== "contain" && v !== "smart-crop") throw new Error(`Invalid fit mode: ${v}`);
+      out.fitMode = v;
+      continue;
+    }
+
+    if (a === "--format") {
+      const v = argv[++i]?.toLowerCase();
+      if (v !== "webp" && v !== "png" && v !== "jpeg" && v !== "jpg") throw new Error(`Invalid format: ${v}`);
+      out.format = v === "jpg" ? "jpeg" : v;
+      continue;
+    }
+
     if (a === "--imageSize") {
       const v = argv[++i]?.toUpperCase();
       if (v !== "1K" && v !== "2K" && v !== "4K") throw new Error(`Invalid imageSize: ${v}`);
@@ -160,6 +291,20 @@ function parseArgs(argv: string[]): CliArgs {
       continue;
     }
 
+    if (a === "--edit") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --edit");
+      out.editImage = v;
+      continue;
+    }
+
+    if (a === "--mask") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --mask");
+      out.mask = v;
+      continue;
+    }
+
     if (a === "--n") {
       const v = argv[++i];
       if (!v) throw new Error("Missing value for --n");
@@ -168,6 +313,118 @@ function parseArgs(argv: string[]): CliArgs {
       continue;
     }
 
+    if (a === "--batch") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --batch");
+      out.batch = v;
+      continue;
+    }
+
+    if (a === "--outdir") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --outdir");
+      out.outDir = v;
+      continue;
+    }
+
+    if (a === "--concurrency") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --concurrency");
+      out.concurrency = parseInt(v, 10);
+      if (isNaN(out.concurrency) || out.concurrency < 1) throw new Error(`Invalid concurrency: ${v}`);
+      continue;
+    }
+
+    if (a === "--skip-existing") {
+      out.skipExisting = true;
+      continue;
+    }
+
+    if (a === "--no-cache") {
+      out.noCache = true;
+      continue;
+    }
+
+    if (a === "--refresh") {
+      out.refresh = true;
+      continue;
+    }
+
+    if (a === "--no-sidecar") {
+      out.sidecar = false;
+      continue;
+    }
+
+    if (a === "--embed-metadata") {
+      out.embedMetadata = true;
+      continue;
+    }
+
+    if (a === "--profile") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --profile");
+      out.profile = v;
+      continue;
+    }
+
+    if (a === "--ignore-budget") {
+      out.ignoreBudget = true;
+      continue;
+    }
+
+    if (a === "--template") {
+      out.template = true;
+      continue;
+    }
+
+    if (a === "--var") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --var");
+      const [name, value] = parseVarAssignment(v);
+      out.vars[name] = value;
+      continue;
+    }
+
+    if (a === "--vars") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --vars");
+      out.varsFile = v;
+      continue;
+    }
+
+    if (a === "--render-prompt") {
+      out.renderPrompt = true;
+      continue;
+    }
+
+    if (a === "--session") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --session");
+      assertValidSessionId(v);
+      out.session = v;
+      continue;
+    }
+
+    if (a === "--list-sessions") {
+      out.listSessions = true;
+      continue;
+    }
+
+    if (a === "--delete-session") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --delete-session");
+      assertValidSessionId(v);
+      out.deleteSession = v;
+      continue;
+    }
+
+    if (a === "--prune-sessions") {
+      const v = argv[++i];
+      if (!v) throw new Error("Missing value for --prune-sessions");
+      out.pruneSessions = v;
+      continue;
+    }
+
     if (a.startsWith("-")) {
       throw new Error(`Unknown option: ${a}`);
     }
@@ -175,6 +432,15 @@ function parseArgs(argv: string[]): CliArgs {
     positional.push(a);
   }
 
+  if (out.mask && !out.editImage) throw new Error("--mask requires --edit <image>");
+  if (out.outputQuality !== null && !out.format) throw new Error("--quality <0-100> requires --format");
+  if (out.session) {
+    // Sessions replay Gemini's own turns, so they are tied to the Gemini API.
+    if (out.provider && out.provider !== "google") throw new Error(`--session requires --provider google, not ${out.provider}`);
+    if (out.n > 1) throw new Error("--session continues a single conversation; drop --n");
+    if (out.batch) throw new Error("--session cannot be combined with --batch");
+  }
+
   if (!out.prompt && out.promptFiles.length === 0 && positional.length > 0) {
     out.prompt = positional.join(" ");
   }
@@ -219,95 +485,56 @@ async function loadEnv(): Promise<void> {
   }
 }
 
-function extractYamlFrontMatter(content: string): string | null {
-  const match = content.match(/^---\s*\n([\s\S]*?)\n---\s*$/m);
-  return match ? match[1] : null;
-}
-
-function parseSimpleYaml(yaml: string): Partial<ExtendConfig> {
-  const config: Partial<ExtendConfig> = {};
-  const lines = yaml.split("\n");
-  let currentKey: string | null = null;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("#")) continue;
-
-    if (trimmed.includes(":") && !trimmed.startsWith("-")) {
-      const colonIdx = trimmed.indexOf(":");
-      const key = trimmed.slice(0, colonIdx).trim();
-      let value = trimmed.slice(colonIdx + 1).trim();
-
-      if (value === "null" || value === "") {
-        value = "null";
-      }
-
-      if (key === "version") {
-        config.version = value === "null" ? 1 : parseInt(value, 10);
-      } else if (key === "default_provider") {
-        config.default_provider = value === "null" ? null : (value as Provider);
-      } else if (key === "default_quality") {
-        config.default_quality = value === "null" ? null : (value as "normal" | "2k");
-      } else if (key === "default_aspect_ratio") {
-        const cleaned = value.replace(/['"]/g, "");
-        config.default_aspect_ratio = cleaned === "null" ? null : cleaned;
-      } else if (key === "default_image_size") {
-        config.default_image_size = value === "null" ? null : (value as "1K" | "2K" | "4K");
-      } else if (key === "default_model") {
-        config.default_model = { google: null, openai: null, dashscope: null, replicate: null };
-        currentKey = "default_model";
-      } else if (currentKey === "default_model" && (key === "google" || key === "openai" || key === "dashscope" || key === "replicate")) {
-        const cleaned = value.replace(/['"]/g, "");
-        config.default_model![key] = cleaned === "null" ? null : cleaned;
-      }
-    }
-  }
-
-  return config;
-}
-
-async function loadExtendConfig(): Promise<Partial<ExtendConfig>> {
-  const home = homedir();
-  const cwd = process.cwd();
-
-  const paths = [
-    path.join(cwd, ".baoyu-skills", "baoyu-image-gen", "EXTEND.md"),
-    path.join(home, ".baoyu-skills", "baoyu-image-gen", "EXTEND.md"),
-  ];
-
-  for (const p of paths) {
-    try {
-      const content = await readFile(p, "utf8");
-      const yaml = extractYamlFrontMatter(content);
-      if (!yaml) continue;
-
-      return parseSimpleYaml(yaml);
-    } catch {
-      continue;
-    }
-  }
-
-  return {};
-}
-
 function mergeConfig(args: CliArgs, extend: Partial<ExtendConfig>): CliArgs {
+  // provider_chain takes over provider selection; only an explicit --provider bypasses it.
+  const defaultProvider = extend.provider_chain?.length ? null : extend.default_provider;
   return {
     ...args,
-    provider: args.provider ?? extend.default_provider ?? null,
+    provider: args.session ? "google" : args.provider ?? defaultProvider ?? null,
     quality: args.quality ?? extend.default_quality ?? null,
     aspectRatio: args.aspectRatio ?? extend.default_aspect_ratio ?? null,
     imageSize: args.imageSize ?? extend.default_image_size ?? null,
   };
 }
 
-async function readPromptFromFiles(files: string[]): Promise<string> {
+// Templates are opt-in: prompts written before them may contain a literal "{{".
+function usesTemplates(args: CliArgs): boolean {
+  return args.template || args.varsFile !== null || Object.keys(args.vars).length > 0;
+}
+
+async function renderPrompt(args: CliArgs, text: string, options: RenderOptions): Promise<string> {
+  return usesTemplates(args) ? renderTemplate(text, args.vars, options) : text;
+}
+
+// Each file is rendered on its own so its {{> includes}} resolve next to it.
+async function readPromptFromFiles(args: CliArgs): Promise<string> {
   const parts: string[] = [];
-  for (const f of files) {
-    parts.push(await readFile(f, "utf8"));
+  for (const f of args.promptFiles) {
+    parts.push(await renderPrompt(args, await readFile(f, "utf8"), { label: f, file: f, baseDir: path.dirname(path.resolve(f)) }));
   }
   return parts.join("\n\n");
 }
 
+// The --prompt text (or a manifest prompt) or the prompt files, rendered with
+// --template/--var/--vars; null when neither is set.
+async function buildPrompt(args: CliArgs, label = "--prompt"): Promise<string | null> {
+  if (args.prompt) return renderPrompt(args, args.prompt, { label, baseDir: process.cwd() });
+  if (args.promptFiles.length > 0) return readPromptFromFiles(args);
+  return null;
+}
+
+function printRenderedPrompt(prompt: string, json: boolean, id: string | null = null): void {
+  const stats = { chars: prompt.length, estimatedTokens: estimateTokens(prompt) };
+  if (json) {
+    console.log(JSON.stringify({ ...(id ? { id } : {}), prompt, ...stats }, null, 2));
+    return;
+  }
+  if (id) console.log(`=== ${id} ===`);
+  console.log(prompt);
+  // Stats go to stderr so stdout is exactly the prompt.
+  console.error(`[${stats.chars} chars, ~${stats.estimatedTokens} tokens]`);
+}
+
 async function readPromptFromStdin(): Promise<string | null> {
   if (process.stdin.isTTY) return null;
   try {
@@ -319,75 +546,164 @@ async function readPromptFromStdin(): Promise<string | null> {
   }
 }
 
-function normalizeOutputImagePath(p: string): string {
+function normalizeOutputImagePath(p: string, format: OutputFormat | null = null): string {
   const full = path.resolve(p);
   const ext = path.extname(full);
+  if (format) return `${ext ? full.slice(0, -ext.length) : full}${getFormatExtension(format)}`;
   if (ext) return full;
   return `${full}.png`;
 }
 
+function buildOutputImagePaths(outputPath: string, count: number, numbered: boolean): string[] {
+  if (!numbered) return [outputPath];
+  const ext = path.extname(outputPath);
+  const base = outputPath.slice(0, -ext.length);
+  return Array.from({ length: count }, (_, i) => `${base}-${i + 1}${ext}`);
+}
+
+const REF_CAPABLE_PROVIDERS: Provider[] = ["google", "openai", "replicate", "sdwebui", "comfyui", "gemini-web", "mock"];
+const EDIT_CAPABLE_PROVIDERS: Provider[] = ["google", "openai", "replicate", "sdwebui", "mock"];
+// Gemini edits from the instruction alone and has no mask input.
+const MASK_CAPABLE_PROVIDERS: Provider[] = ["openai", "replicate", "sdwebui", "mock"];
+
+function supportsInputs(provider: Provider, args: CliArgs): boolean {
+  if (args.referenceImages.length > 0 && !REF_CAPABLE_PROVIDERS.includes(provider)) return false;
+  if (args.editImage && !EDIT_CAPABLE_PROVIDERS.includes(provider)) return false;
+  if (args.mask && !MASK_CAPABLE_PROVIDERS.includes(provider)) return false;
+  return true;
+}
+
+// Set at startup; null when baoyu-danger-gemini-web is not installed.
+let geminiWebCookiePath: string | null = null;
+
+function hasProviderCredentials(provider: Provider): boolean {
+  if (provider === "google") return !!(process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY);
+  if (provider === "openai") return !!process.env.OPENAI_API_KEY;
+  if (provider === "dashscope") return !!process.env.DASHSCOPE_API_KEY;
+  if (provider === "sdwebui") return !!resolveBaseUrl("sdwebui", process.env.SDWEBUI_BASE_URL);
+  if (provider === "comfyui") return !!(resolveBaseUrl("comfyui", process.env.COMFYUI_BASE_URL) && process.env.COMFYUI_WORKFLOW);
+  // A cookie file only exists once the user has signed in through baoyu-danger-gemini-web.
+  if (provider === "gemini-web") return geminiWebCookiePath !== null && existsSync(geminiWebCookiePath);
+  if (provider === "mock") return true;
+  return !!process.env.REPLICATE_API_TOKEN;
+}
+
 function detectProvider(args: CliArgs): Provider {
-  if (args.referenceImages.length > 0 && args.provider && args.provider !== "google" && args.provider !== "openai" && args.provider !== "replicate") {
+  if (args.referenceImages.length > 0 && args.provider && !REF_CAPABLE_PROVIDERS.includes(args.provider)) {
+    throw new Error(
+      "Reference images require a ref-capable provider. Use --provider google (Gemini multimodal), --provider openai (GPT Image edits), --provider replicate, --provider sdwebui (img2img), --provider comfyui, or --provider gemini-web."
+    );
+  }
+
+  if (args.editImage && args.provider && !EDIT_CAPABLE_PROVIDERS.includes(args.provider)) {
+    throw new Error(
+      `--edit is not supported by ${args.provider}. Use --provider openai (GPT Image edits), --provider google (Gemini multimodal), --provider replicate, or --provider sdwebui (img2img).`
+    );
+  }
+
+  if (args.mask && args.provider && !MASK_CAPABLE_PROVIDERS.includes(args.provider)) {
     throw new Error(
-      "Reference images require a ref-capable provider. Use --provider google (Gemini multimodal), --provider openai (GPT Image edits), or --provider replicate."
+      `--mask is not supported by ${args.provider}.` +
+        (args.provider === "google" ? " Gemini edits from the prompt alone: drop --mask and describe the region to change." : "") +
+        " Use --provider openai, --provider replicate (inpainting model), or --provider sdwebui."
     );
   }
 
   if (args.provider) return args.provider;
 
-  const hasGoogle = !!(process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY);
-  const hasOpenai = !!process.env.OPENAI_API_KEY;
-  const hasDashscope = !!process.env.DASHSCOPE_API_KEY;
-  const hasReplicate = !!process.env.REPLICATE_API_TOKEN;
+  const hasGoogle = hasProviderCredentials("google");
+  const hasOpenai = hasProviderCredentials("openai");
+  const hasDashscope = hasProviderCredentials("dashscope");
+  const hasReplicate = hasProviderCredentials("replicate");
+  const hasSdwebui = hasProviderCredentials("sdwebui");
+  const hasComfyui = hasProviderCredentials("comfyui");
+  const hasGeminiWeb = hasProviderCredentials("gemini-web");
+
+  if (args.editImage) {
+    const editor = (["google", "openai", "replicate", "sdwebui"] as Provider[]).find(
+      (p) => hasProviderCredentials(p) && supportsInputs(p, args)
+    );
+    if (editor) return editor;
+    throw new Error(
+      `--edit${args.mask ? " with --mask" : ""} requires ${args.mask ? "OpenAI, Replicate or SD-WebUI" : "Google, OpenAI, Replicate or SD-WebUI"}. ` +
+        "Set the matching API key (or SDWEBUI_BASE_URL)."
+    );
+  }
 
   if (args.referenceImages.length > 0) {
     if (hasGoogle) return "google";
     if (hasOpenai) return "openai";
     if (hasReplicate) return "replicate";
+    if (hasSdwebui) return "sdwebui";
+    if (hasComfyui) return "comfyui";
+    if (hasGeminiWeb) return "gemini-web";
     throw new Error(
-      "Reference images require Google, OpenAI or Replicate. Set GOOGLE_API_KEY/GEMINI_API_KEY, OPENAI_API_KEY, or REPLICATE_API_TOKEN, or remove --ref."
+      "Reference images require Google, OpenAI, Replicate, SD-WebUI, ComfyUI or a Gemini web session. Set GOOGLE_API_KEY/GEMINI_API_KEY, OPENAI_API_KEY, REPLICATE_API_TOKEN, SDWEBUI_BASE_URL, or COMFYUI_BASE_URL + COMFYUI_WORKFLOW, sign in with baoyu-danger-gemini-web, or remove --ref."
     );
   }
 
-  const available = [hasGoogle && "google", hasOpenai && "openai", hasDashscope && "dashscope", hasReplicate && "replicate"].filter(Boolean) as Provider[];
+  const available = [
+    hasGoogle && "google",
+    hasOpenai && "openai",
+    hasDashscope && "dashscope",
+    hasReplicate && "replicate",
+    hasSdwebui && "sdwebui",
+    hasComfyui && "comfyui",
+    hasGeminiWeb && "gemini-web",
+  ].filter(Boolean) as Provider[];
 
   if (available.length === 1) return available[0]!;
   if (available.length > 1) return available[0]!;
 
   throw new Error(
-    "No API key found. Set GOOGLE_API_KEY, GEMINI_API_KEY, OPENAI_API_KEY, DASHSCOPE_API_KEY, or REPLICATE_API_TOKEN.\n" +
-      "Create ~/.baoyu-skills/.env or <cwd>/.baoyu-skills/.env with your keys."
+    "No API key found. Set GOOGLE_API_KEY, GEMINI_API_KEY, OPENAI_API_KEY, DASHSCOPE_API_KEY, or REPLICATE_API_TOKEN (or SDWEBUI_BASE_URL / COMFYUI_BASE_URL for a local server).\n" +
+      "Create ~/.baoyu-skills/.env or <cwd>/.baoyu-skills/.env with your keys, or sign in to Gemini web with baoyu-danger-gemini-web (--login)."
   );
 }
 
-async function validateReferenceImages(referenceImages: string[]): Promise<void> {
-  for (const refPath of referenceImages) {
-    const fullPath = path.resolve(refPath);
+function resolveProviderChain(args: CliArgs, extendConfig: Partial<ExtendConfig>): Provider[] {
+  const configured = extendConfig.provider_chain ?? [];
+  if (args.provider || configured.length === 0) return [detectProvider(args)];
+
+  const chain = configured.filter((p) => hasProviderCredentials(p) && supportsInputs(p, args));
+  if (chain.length === 0) {
+    const needs = args.mask
+      ? " with --mask (needs openai, replicate or sdwebui)"
+      : args.editImage
+        ? " with --edit (needs google, openai, replicate or sdwebui)"
+        : args.referenceImages.length > 0
+          ? " with reference images (needs google, openai, replicate, sdwebui, comfyui or gemini-web)"
+          : "";
+    throw new Error(
+      `No provider in provider_chain [${configured.join(", ")}] is usable` +
+        needs +
+        ". Set the matching API keys or edit provider_chain in EXTEND.md."
+    );
+  }
+  return chain;
+}
+
+async function validateInputImages(args: CliArgs): Promise<void> {
+  const inputs: Array<[string, string]> = args.referenceImages.map((p) => ["Reference image", p]);
+  if (args.editImage) inputs.push(["Edit image", args.editImage]);
+  if (args.mask) inputs.push(["Mask image", args.mask]);
+
+  for (const [label, p] of inputs) {
+    const fullPath = path.resolve(p);
     try {
       await access(fullPath);
     } catch {
-      throw new Error(`Reference image not found: ${fullPath}`);
+      throw new Error(`${label} not found: ${fullPath}`);
     }
   }
 }
 
 type ProviderModule = {
   getDefaultModel: () => string;
-  generateImage: (prompt: string, model: string, args: CliArgs) => Promise<Uint8Array>;
+  generateImage: (prompt: string, model: string, args: CliArgs) => Promise<Uint8Array[] | SeededImages>;
+  getCacheKeyParts?: () => Promise<Record<string, unknown>>;
 };
 
-function isRetryableGenerationError(error: unknown): boolean {
-  const msg = error instanceof Error ? error.message : String(error);
-  const nonRetryableMarkers = [
-    "Reference image",
-    "not supported",
-    "only supported",
-    "No API key found",
-    "is required",
-  ];
-  return !nonRetryableMarkers.some((marker) => msg.includes(marker));
-}
-
 async function loadProviderModule(provider: Provider): Promise<ProviderModule> {
   if (provider === "google") {
     return (await import("./providers/google")) as ProviderModule;
@@ -398,26 +714,710 @@ async function loadProviderModule(provider: Provider): Promise<ProviderModule> {
   if (provider === "replicate") {
     return (await import("./providers/replicate")) as ProviderModule;
   }
+  if (provider === "sdwebui") {
+    return (await import("./providers/sdwebui")) as ProviderModule;
+  }
+  if (provider === "comfyui") {
+    return (await import("./providers/comfyui")) as ProviderModule;
+  }
+  if (provider === "gemini-web") {
+    return (await import("./providers/gemini-web")) as ProviderModule;
+  }
+  if (provider === "mock") {
+    return (await import("./providers/mock")) as ProviderModule;
+  }
   return (await import("./providers/openai")) as ProviderModule;
 }
 
+type GenerationAttempt = {
+  provider: Provider;
+  model: string;
+  tries: number;
+  error: string | null;
+  errorType: string | null;
+};
+
+type CacheStatus = "hit" | "miss" | "refreshed" | "disabled";
+
+type GenerationResult = {
+  savedImages: string[];
+  sidecars: string[];
+  provider: Provider;
+  model: string;
+  attempts: GenerationAttempt[];
+  cache: { status: CacheStatus; key: string | null };
+  dimensions: { requested: Dimensions | null; actual: Array<Dimensions | null> };
+};
+
+type ProviderCandidate = {
+  provider: Provider;
+  model: string;
+  module: ProviderModule;
+};
+
+function resolveModel(
+  provider: Provider,
+  cliModel: string | null,
+  extendConfig: Partial<ExtendConfig>,
+  providerModule: ProviderModule
+): string {
+  let model = cliModel;
+  if (!model && extendConfig.default_model) {
+    if (provider === "google") model = extendConfig.default_model.google ?? null;
+    if (provider === "openai") model = extendConfig.default_model.openai ?? null;
+    if (provider === "dashscope") model = extendConfig.default_model.dashscope ?? null;
+    if (provider === "replicate") model = extendConfig.default_model.replicate ?? null;
+    if (provider === "sdwebui") model = extendConfig.default_model.sdwebui ?? null;
+    if (provider === "comfyui") model = extendConfig.default_model.comfyui ?? null;
+    if (provider === "gemini-web") model = extendConfig.default_model["gemini-web"] ?? null;
+    if (provider === "mock") model = extendConfig.default_model.mock ?? null;
+  }
+  return model || providerModule.getDefaultModel();
+}
+
+async function resolveProviderCandidates(
+  args: CliArgs,
+  extendConfig: Partial<ExtendConfig>
+): Promise<ProviderCandidate[]> {
+  const providers = resolveProviderChain(args, extendConfig);
+  const candidates: ProviderCandidate[] = [];
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i]!;
+    const module = await loadProviderModule(provider);
+    // --model names a model of the first (preferred) provider only.
+    const model = resolveModel(provider, i === 0 ? args.model : null, extendConfig, module);
+    candidates.push({ provider, model, module });
+  }
+  return candidates;
+}
+
+function withSeeds(result: Uint8Array[] | SeededImages): SeededImages {
+  return Array.isArray(result) ? { images: result, seeds: result.map(() => null) } : result;
+}
+
+// Times one provider call and appends it to the usage ledger, failed or not.
+async function callWithUsage(
+  args: CliArgs,
+  provider: Provider,
+  model: string,
+  pricing: Record<string, PriceEntry>,
+  call: () => Promise<SeededImages>
+): Promise<SeededImages> {
+  const started = Date.now();
+  const entry = {
+    timestamp: new Date(started).toISOString(),
+    project: process.cwd(),
+    provider,
+    model,
+    quality: args.quality,
+    imageSize: args.imageSize,
+    aspectRatio: args.aspectRatio,
+  };
+
+  try {
+    const { result, tokens } = await trackTokenUsage(call);
+    const dimensions = result.images[0] ? readImageSize(result.images[0]) : null;
+    await appendUsage({
+      ...entry,
+      status: "ok",
+      errorType: null,
+      count: result.images.length,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      latencyMs: Date.now() - started,
+      tokens,
+      costUsd: estimateCost(pricing, provider, model, result.images.length, tokens),
+    });
+    return result;
+  } catch (e) {
+    await appendUsage({
+      ...entry,
+      status: "error",
+      errorType: describeError(e).type,
+      count: 0,
+      width: null,
+      height: null,
+      latencyMs: Date.now() - started,
+      tokens: null,
+      costUsd: 0,
+    });
+    throw e;
+  }
+}
+
+async function generateWithFallback(
+  args: CliArgs,
+  candidates: ProviderCandidate[],
+  prompt: string,
+  pricing: Record<string, PriceEntry>
+): Promise<SeededImages & { provider: Provider; model: string; attempts: GenerationAttempt[] }> {
+  const attempts: GenerationAttempt[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    const { provider, model, module: providerModule } = candidates[i]!;
+    let tries = 0;
+
+    try {
+      const { images, seeds } = await withRetry(
+        () => {
+          tries++;
+          return callWithUsage(args, provider, model, pricing, async () =>
+            withSeeds(await providerModule.generateImage(prompt, model, args))
+          );
+        },
+        DEFAULT_RETRY_POLICY,
+        (e, attempt, delayMs) => {
+          const { type } = describeError(e);
+          console.error(
+            `Generation failed (${type}), retrying in ${(delayMs / 1000).toFixed(1)}s [${attempt + 1}/${DEFAULT_RETRY_POLICY.maxAttempts}]...`
+          );
+        }
+      );
+      attempts.push({ provider, model, tries, error: null, errorType: null });
+      return { images, seeds, provider, model, attempts };
+    } catch (e) {
+      const { type, message } = describeError(e);
+      attempts.push({ provider, model, tries, error: message, errorType: type });
+      const next = candidates[i + 1];
+      if (!next) throw e;
+      console.error(`${provider} failed (${type}): ${message}\nFalling back to ${next.provider}...`);
+    }
+  }
+
+  throw new Error("No provider available");
+}
+
+async function generateAndSave(
+  args: CliArgs,
+  extendConfig: Partial<ExtendConfig>,
+  prompt: string,
+  imagePath: string
+): Promise<GenerationResult> {
+  await validateInputImages(args);
+
+  const startedAt = new Date();
+  const outputPath = normalizeOutputImagePath(imagePath, args.format);
+  const candidates = await resolveProviderCandidates(args, extendConfig);
+
+  const cacheKeyFor = async (provider: Provider, model: string) =>
+    computeCacheKey({
+      provider,
+      model,
+      prompt,
+      aspectRatio: args.aspectRatio,
+      size: args.size,
+      quality: args.quality,
+      imageSize: args.imageSize,
+      n: args.n,
+      referenceImages: args.referenceImages,
+      editImage: args.editImage,
+      mask: args.mask,
+      providerParts: (await candidates.find((c) => c.provider === provider)?.module.getCacheKeyParts?.()) ?? {},
+      params: getProviderSettings(provider).params,
+    });
+
+  let generated: Awaited<ReturnType<typeof generateWithFallback>> | null = null;
+  // A session turn depends on the conversation so far, which the cache key doesn't cover.
+  const cacheDisabled = args.noCache || args.session !== null;
+  let cache: GenerationResult["cache"] = { status: cacheDisabled ? "disabled" : args.refresh ? "refreshed" : "miss", key: null };
+
+  if (cache.status === "miss") {
+    for (const c of candidates) {
+      const key = await cacheKeyFor(c.provider, c.model);
+      const hit = await readCache(key);
+      if (!hit) continue;
+      console.error(`Cache hit (${c.provider} / ${c.model}): ${key.slice(0, 12)}`);
+      generated = { images: hit.images, seeds: hit.entry.seeds ?? [], provider: c.provider, model: c.model, attempts: [] };
+      cache = { status: "hit", key };
+      break;
+    }
+  }
+
+  if (!generated) {
+    // Cache hits are free, so only real generations count against the budget.
+    const pricing = resolvePricing(extendConfig);
+    if (!args.ignoreBudget && hasBudget(extendConfig.budget)) {
+      await assertWithinBudget(extendConfig.budget);
+      for (const c of candidates) {
+        if (hasPrice(pricing, c.provider, c.model)) continue;
+        console.error(
+          `Warning: no price for ${c.provider}/${c.model}; its calls do not count against the budget. ` +
+            `Add it to pricing in EXTEND.md.`
+        );
+      }
+    }
+    generated = await generateWithFallback(args, candidates, prompt, pricing);
+    if (cache.status !== "disabled") {
+      const key = await cacheKeyFor(generated.provider, generated.model);
+      await writeCache(key, generated.provider, generated.model, generated.images, generated.seeds);
+      cache.key = key;
+    }
+  }
+
+  const { images, seeds, provider, model, attempts } = generated;
+
+  if (images.length < args.n) {
+    console.error(`Warning: requested ${args.n} images, provider returned ${images.length}.`);
+  }
+
+  // Cache entries keep the provider's originals; fit and format are applied per run.
+  const fit = args.fit ? parseDimensions(args.fit) : null;
+  const outputs: Uint8Array[] = [];
+  for (const image of images) {
+    outputs.push(await postprocessImage(image, { fit, fitMode: args.fitMode, format: args.format, quality: args.outputQuality }));
+  }
+
+  const requested = fit ?? (args.size ? parseDimensions(args.size) : null);
+  const actual = outputs.map((o) => readImageSize(o));
+  const mismatch = actual.find((d) => requested && d && (d.width !== requested.width || d.height !== requested.height));
+  if (requested && mismatch) {
+    console.error(
+      `Warning: requested ${requested.width}x${requested.height}, provider returned ${mismatch.width}x${mismatch.height}. ` +
+        `Use --fit ${requested.width}x${requested.height} to resize.`
+    );
+  }
+
+  const finishedAt = new Date();
+  const savedImages = buildOutputImagePaths(outputPath, outputs.length, args.n > 1);
+  const sidecars: string[] = [];
+  const dir = path.dirname(outputPath);
+  await mkdir(dir, { recursive: true });
+
+  for (let i = 0; i < outputs.length; i++) {
+    const savedImage = savedImages[i]!;
+    let data = outputs[i]!;
+    let record: ProvenanceRecord | null = null;
+
+    if (args.sidecar || args.embedMetadata) {
+      record = await buildProvenance(
+        {
+          prompt,
+          promptFiles: args.promptFiles,
+          provider,
+          model,
+          seed: seeds[i] ?? null,
+          aspectRatio: args.aspectRatio,
+          size: args.size,
+          quality: args.quality,
+          imageSize: args.imageSize,
+          fit: args.fit ? `${args.fit} ${args.fitMode}` : null,
+          referenceImages: args.referenceImages,
+          editImage: args.editImage,
+          mask: args.mask,
+          session: args.session,
+          startedAt: startedAt.toISOString(),
+          finishedAt: finishedAt.toISOString(),
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          retries: attempts.reduce((sum, a) => sum + a.tries - 1, 0),
+          fallbacks: Math.max(0, attempts.length - 1),
+          cached: cache.status === "hit",
+          cacheKey: cache.key,
+        },
+        savedImage,
+        data,
+        i,
+        outputs.length
+      );
+
+      if (args.embedMetadata) {
+        try {
+          const embedded = embedProvenance(data, record);
+          if (embedded) data = embedded;
+          else console.error(`Warning: metadata embedding supports PNG and JPEG only, skipped for ${savedImage}`);
+        } catch (e) {
+          console.error(`Warning: could not embed metadata in ${savedImage}: ${describeError(e).message}`);
+        }
+      }
+    }
+
+    await writeFile(savedImage, data);
+    if (record && args.sidecar) sidecars.push(await writeSidecar(savedImage, record, data));
+  }
+
+  return { savedImages, sidecars, provider, model, attempts, cache, dimensions: { requested, actual } };
+}
+
+async function outputsExist(imagePath: string, n: number, format: OutputFormat | null): Promise<boolean> {
+  const paths = buildOutputImagePaths(normalizeOutputImagePath(imagePath, format), n, n > 1);
+  for (const p of paths) {
+    try {
+      await access(p);
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+function applyBatchJob(args: CliArgs, job: BatchJob): CliArgs {
+  return {
+    ...args,
+    prompt: job.prompt,
+    promptFiles: job.promptFiles,
+    imagePath: job.imagePath,
+    provider: job.provider ?? args.provider,
+    // A CLI --model belongs to the CLI provider; don't leak it into jobs that pick another one.
+    model: job.model ?? (job.provider && job.provider !== args.provider ? null : args.model),
+    aspectRatio: job.aspectRatio ?? args.aspectRatio,
+    size: job.size ?? args.size,
+    quality: job.quality ?? args.quality,
+    imageSize: job.imageSize ?? args.imageSize,
+    referenceImages: job.referenceImages ?? args.referenceImages,
+    editImage: job.editImage ?? args.editImage,
+    // A CLI --mask belongs to the CLI --edit image.
+    mask: job.editImage ? job.mask : args.mask,
+    n: job.n ?? args.n,
+    vars: job.vars ? { ...args.vars, ...job.vars } : args.vars,
+  };
+}
+
+type BatchJobReport = {
+  id: string;
+  status: "succeeded" | "skipped" | "failed";
+  image: string;
+  savedImages: string[];
+  provider: Provider | null;
+  model: string | null;
+  attempts: GenerationAttempt[];
+  cached: boolean;
+  error: string | null;
+};
+
+async function runBatch(args: CliArgs, extendConfig: Partial<ExtendConfig>): Promise<void> {
+  const jobs = await loadBatchJobs(args.batch!, args.outDir);
+  const total = jobs.length;
+  let done = 0;
+
+  if (args.renderPrompt) {
+    for (const job of jobs) {
+      printRenderedPrompt((await buildPrompt(applyBatchJob(args, job), `job ${job.id}`))!, args.json, job.id);
+    }
+    return;
+  }
+
+  const reports = await runWithConcurrency(jobs, args.concurrency, async (job): Promise<BatchJobReport> => {
+    const jobArgs = applyBatchJob(args, job);
+    const report: BatchJobReport = {
+      id: job.id,
+      status: "succeeded",
+      image: normalizeOutputImagePath(job.imagePath, jobArgs.format),
+      savedImages: [],
+      provider: null,
+      model: null,
+      attempts: [],
+      cached: false,
+      error: null,
+    };
+
+    try {
+      if (args.skipExisting && (await outputsExist(job.imagePath, jobArgs.n, jobArgs.format))) {
+        report.status = "skipped";
+      } else {
+        const prompt = (await buildPrompt(jobArgs, `job ${job.id}`))!;
+        const result = await generateAndSave(jobArgs, extendConfig, prompt, job.imagePath);
+        report.savedImages = result.savedImages;
+        report.provider = result.provider;
+        report.model = result.model;
+        report.attempts = result.attempts;
+        report.cached = result.cache.status === "hit";
+      }
+    } catch (e) {
+      report.status = "failed";
+      report.error = e instanceof Error ? e.message : String(e);
+    }
+
+    done++;
+    const label = `[${done}/${total}] ${job.id}`;
+    if (report.status === "failed") console.error(`${label} failed: ${report.error}`);
+    else if (!args.json) console.log(`${label} ${report.status === "skipped" ? "skipped (exists)" : report.savedImages.join(", ")}`);
+    return report;
+  });
+
+  const summary = {
+    total,
+    succeeded: reports.filter((r) => r.status === "succeeded").length,
+    cached: reports.filter((r) => r.cached).length,
+    skipped: reports.filter((r) => r.status === "skipped").length,
+    failed: reports.filter((r) => r.status === "failed").length,
+  };
+
+  if (args.json) {
+    console.log(JSON.stringify({ ...summary, jobs: reports }, null, 2));
+  } else {
+    console.log(`\nBatch complete: ${summary.succeeded} succeeded, ${summary.skipped} skipped, ${summary.failed} failed`);
+  }
+
+  if (summary.failed > 0) process.exitCode = 1;
+}
+
+async function runCacheCommand(argv: string[]): Promise<void> {
+  const sub = argv[0];
+  if (sub !== "prune") throw new Error(`Unknown cache command: ${sub ?? "(none)"}. Use: cache prune --older-than <age>`);
+
+  let olderThan: string | null = null;
+  let json = false;
+  for (let i = 1; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === "--older-than") {
+      olderThan = argv[++i] ?? null;
+      if (!olderThan) throw new Error("Missing value for --older-than");
+    } else if (a === "--json") {
+      json = true;
+    } else {
+      throw new Error(`Unknown option: ${a}`);
+    }
+  }
+  if (!olderThan) throw new Error("cache prune requires --older-than <age>");
+
+  const result = await pruneCache(parseDuration(olderThan));
+  if (json) {
+    console.log(JSON.stringify({ cacheDir: resolveCacheDir(), ...result }, null, 2));
+  } else {
+    const mb = (result.freedBytes / (1024 * 1024)).toFixed(1);
+    console.log(`Removed ${result.removed} cache entries (${mb}MB), kept ${result.kept} in ${resolveCacheDir()}`);
+  }
+}
+
+type ConfigValue = { value: unknown; source: string };
+
+const PROXY_ENV_VARS = ["https_proxy", "HTTPS_PROXY", "http_proxy", "HTTP_PROXY", "ALL_PROXY"];
+
+function fromEnv(name: string): ConfigValue | null {
+  return process.env[name] ? { value: process.env[name], source: `env ${name}` } : null;
+}
+
+async function describeEffectiveConfig(loaded: LoadedConfig): Promise<Record<string, ConfigValue>> {
+  const { config, sources } = loaded;
+  const values: Record<string, ConfigValue> = {};
+  const fromConfig = (key: string, value: unknown): ConfigValue | null =>
+    sources[key] !== undefined ? { value, source: sources[key]! } : null;
+
+  const chain = config.provider_chain?.length ? config.provider_chain : null;
+  values.provider_chain = fromConfig("provider_chain", config.provider_chain) ?? { value: null, source: "default" };
+  values.default_provider = chain
+    ? { value: null, source: "ignored: provider_chain is set" }
+    : fromConfig("default_provider", config.default_provider) ?? { value: null, source: "default (auto-detect)" };
+  values.default_quality = fromConfig("default_quality", config.default_quality) ?? { value: "2k", source: "default" };
+  values.default_aspect_ratio = fromConfig("default_aspect_ratio", config.default_aspect_ratio) ?? { value: null, source: "default" };
+  values.default_image_size = fromConfig("default_image_size", config.default_image_size) ?? { value: null, source: "default" };
+
+  for (const provider of PROVIDERS) {
+    const envName = `${provider.toUpperCase().replace("-", "_")}_IMAGE_MODEL`;
+    const model = config.default_model?.[provider] ?? null;
+    values[`default_model.${provider}`] =
+      (model ? fromConfig(`default_model.${provider}`, model) : null) ??
+      fromEnv(envName) ?? { value: (await loadProviderModule(provider)).getDefaultModel(), source: "default" };
+  }
+
+  for (const provider of PROVIDERS) {
+    if (provider === "mock" || provider === "gemini-web") continue;
+    const settings = getProviderSettings(provider);
+    const key = (name: string) => `providers.${provider}.${name}`;
+    values[key("base_url")] =
+      (settings.base_url ? fromConfig(key("base_url"), settings.base_url) : null) ??
+      fromEnv(`${provider.toUpperCase()}_BASE_URL`) ?? { value: null, source: "default" };
+    values[key("proxy")] =
+      (settings.proxy ? fromConfig(key("proxy"), settings.proxy) : null) ??
+      PROXY_ENV_VARS.map(fromEnv).find((v) => v !== null) ?? { value: null, source: "default" };
+    values[key("timeout_ms")] = (settings.timeout_ms ? fromConfig(key("timeout_ms"), settings.timeout_ms) : null) ?? {
+      value: null,
+      source: "default",
+    };
+    values[key("params")] = (settings.params ? fromConfig(key("params"), settings.params) : null) ?? {
+      value: null,
+      source: "default",
+    };
+  }
+
+  for (const limit of ["daily_usd", "monthly_usd"] as const) {
+    values[`budget.${limit}`] = fromConfig(`budget.${limit}`, config.budget?.[limit] ?? null) ?? { value: null, source: "default" };
+  }
+  // Only EXTEND.md pricing entries; the built-in price table is documented in SKILL.md.
+  for (const [priceKey, price] of Object.entries(config.pricing ?? {})) {
+    values[`pricing.${priceKey}`] = fromConfig(`pricing.${priceKey}`, price) ?? { value: price, source: "default" };
+  }
+
+  return values;
+}
+
+async function runConfigCommand(argv: string[]): Promise<void> {
+  const sub = argv[0];
+  if (sub !== "show") throw new Error(`Unknown config command: ${sub ?? "(none)"}. Use: config show [--profile <name>] [--json]`);
+
+  let profile: string | null = null;
+  let json = false;
+  for (let i = 1; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === "--profile") {
+      profile = argv[++i] ?? null;
+      if (!profile) throw new Error("Missing value for --profile");
+    } else if (a === "--json") {
+      json = true;
+    } else {
+      throw new Error(`Unknown option: ${a}`);
+    }
+  }
+
+  await loadEnv();
+  const loaded = await loadExtendConfig(profile);
+  setProviderSettings(loaded.config.providers);
+  const values = await describeEffectiveConfig(loaded);
+
+  if (json) {
+    console.log(JSON.stringify({ path: loaded.path, profile: loaded.profile, profiles: loaded.profiles, values }, null, 2));
+    return;
+  }
+
+  console.log(`EXTEND.md: ${loaded.path ?? "(none found)"}`);
+  console.log(`Profile:   ${loaded.profile ?? "(none)"}${loaded.profiles.length ? ` [available: ${loaded.profiles.join(", ")}]` : ""}`);
+  console.log("");
+  const width = Math.max(...Object.keys(values).map((k) => k.length));
+  for (const [key, { value, source }] of Object.entries(values)) {
+    // Unset provider network settings are just noise.
+    if (key.startsWith("providers.") && value === null && source === "default") continue;
+    const shown = value === null ? "null" : typeof value === "string" ? value : JSON.stringify(value);
+    console.log(`${key.padEnd(width)}  ${shown}  (${source})`);
+  }
+}
+
+async function runSessionCommand(args: CliArgs): Promise<void> {
+  if (args.deleteSession) {
+    const deleted = await deleteSession(args.deleteSession);
+    if (args.json) console.log(JSON.stringify({ session: args.deleteSession, deleted }, null, 2));
+    else console.log(deleted ? `Deleted session ${args.deleteSession}` : `No session ${args.deleteSession} in ${resolveSessionsDir()}`);
+    return;
+  }
+
+  if (args.pruneSessions) {
+    const result = await pruneSessions(parseDuration(args.pruneSessions));
+    if (args.json) console.log(JSON.stringify({ sessionsDir: resolveSessionsDir(), ...result }, null, 2));
+    else console.log(`Removed ${result.removed} sessions, kept ${result.kept} in ${resolveSessionsDir()}`);
+    return;
+  }
+
+  const sessions = await listSessions();
+  if (args.json) {
+    console.log(JSON.stringify({ sessionsDir: resolveSessionsDir(), sessions }, null, 2));
+    return;
+  }
+  for (const s of sessions) {
+    console.log(`${s.id}\t${s.updatedAt}\t${s.turns}\t${s.model}\t${s.lastPrompt}`);
+  }
+}
+
+const USAGE_GROUPS: UsageGroupBy[] = ["day", "provider", "project", "model"];
+
+async function runUsageCommand(argv: string[]): Promise<void> {
+  let by: UsageGroupBy = "day";
+  let since: string | null = null;
+  let profile: string | null = null;
+  let json = false;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === "--by") {
+      const v = argv[++i];
+      if (!v || !(USAGE_GROUPS as string[]).includes(v)) throw new Error(`Invalid --by: ${v ?? "(missing)"} (expected ${USAGE_GROUPS.join("|")})`);
+      by = v as UsageGroupBy;
+    } else if (a === "--since") {
+      since = argv[++i] ?? null;
+      if (!since) throw new Error("Missing value for --since");
+    } else if (a === "--profile") {
+      profile = argv[++i] ?? null;
+      if (!profile) throw new Error("Missing value for --profile");
+    } else if (a === "--json") {
+      json = true;
+    } else {
+      throw new Error(`Unknown option: ${a}`);
+    }
+  }
+
+  const { config } = await loadExtendConfig(profile);
+  const entries = await readUsage(since ? parseDuration(since) : null);
+  const rows = summarizeUsage(entries, by);
+  // Budgets count the whole ledger regardless of --since.
+  const budget = getBudgetStatus(since ? await readUsage() : entries, config.budget);
+
+  if (json) {
+    console.log(JSON.stringify({ ledger: resolveUsageLedgerPath(), by, since, rows, budget }, null, 2));
+    return;
+  }
+
+  console.log(`Usage ledger: ${resolveUsageLedgerPath()}${since ? ` (last ${since})` : ""}`);
+  if (rows.length === 0) {
+    console.log("No usage recorded.");
+  } else {
+    const total = totalUsage(entries);
+    const width = Math.max(by.length, ...rows.map((r) => r.key.length));
+    const line = (key: string, calls: string, errors: string, images: string, tokens: string, cost: string) =>
+      `${key.padEnd(width)}  ${calls.padStart(6)}  ${errors.padStart(6)}  ${images.padStart(6)}  ${tokens.padStart(10)}  ${cost.padStart(10)}`;
+    console.log("");
+    console.log(line(by, "calls", "errors", "images", "tokens", "est. cost"));
+    for (const r of [...rows, total]) {
+      const cost = `${formatUsd(r.costUsd)}${r.unpriced ? "+" : ""}`;
+      console.log(line(r.key, String(r.calls), String(r.errors), String(r.images), String(r.tokens), cost));
+    }
+    if (total.unpriced) {
+      console.log(`\n${total.unpriced} call(s) have no price; add their provider/model to pricing in EXTEND.md.`);
+    }
+  }
+
+  const describe = ({ spentUsd, limitUsd }: { spentUsd: number; limitUsd: number | null }) =>
+    `${formatUsd(spentUsd)}${limitUsd !== null ? ` of ${formatUsd(limitUsd)}${spentUsd >= limitUsd ? " (exceeded)" : ""}` : ""}`;
+  console.log(`\nSpent today: ${describe(budget.daily)}; this month: ${describe(budget.monthly)}`);
+}
+
 async function main(): Promise<void> {
-  const args = parseArgs(process.argv.slice(2));
+  const argv = process.argv.slice(2);
+  if (argv[0] === "cache") {
+    await runCacheCommand(argv.slice(1));
+    return;
+  }
+  if (argv[0] === "config") {
+    await runConfigCommand(argv.slice(1));
+    return;
+  }
+  if (argv[0] === "usage") {
+    await runUsageCommand(argv.slice(1));
+    return;
+  }
+
+  const args = parseArgs(argv);
 
   if (args.help) {
     printUsage();
     return;
   }
 
+  if (args.listSessions || args.deleteSession || args.pruneSessions) {
+    await runSessionCommand(args);
+    return;
+  }
+
   await loadEnv();
-  const extendConfig = await loadExtendConfig();
+  const { config: extendConfig } = await loadExtendConfig(args.profile);
+  setProviderSettings(extendConfig.providers);
+  geminiWebCookiePath = await (await import("./providers/gemini-web")).resolveCookiePath();
   const mergedArgs = mergeConfig(args, extendConfig);
 
   if (!mergedArgs.quality) mergedArgs.quality = "2k";
+  // --var wins over the vars file.
+  if (mergedArgs.varsFile) mergedArgs.vars = { ...(await loadVarsFile(mergedArgs.varsFile)), ...mergedArgs.vars };
+
+  if (mergedArgs.batch) {
+    await runBatch(mergedArgs, extendConfig);
+    return;
+  }
 
-  let prompt: string | null = mergedArgs.prompt;
-  if (!prompt && mergedArgs.promptFiles.length > 0) prompt = await readPromptFromFiles(mergedArgs.promptFiles);
-  if (!prompt) prompt = await readPromptFromStdin();
+  let prompt = await buildPrompt(mergedArgs);
+  if (!prompt) {
+    const stdin = await readPromptFromStdin();
+    if (stdin) prompt = await renderPrompt(mergedArgs, stdin, { label: "stdin", baseDir: process.cwd() });
+  }
+
+  if (prompt && mergedArgs.renderPrompt) {
+    printRenderedPrompt(prompt, mergedArgs.json);
+    return;
+  }
 
   if (!prompt) {
     console.error("Error: Prompt is required");
@@ -433,52 +1433,22 @@ async function main(): Promise<void> {
     return;
   }
 
-  if (mergedArgs.referenceImages.length > 0) {
-    await validateReferenceImages(mergedArgs.referenceImages);
-  }
-
-  const provider = detectProvider(mergedArgs);
-  const providerModule = await loadProviderModule(provider);
-
-  let model = mergedArgs.model;
-  if (!model && extendConfig.default_model) {
-    if (provider === "google") model = extendConfig.default_model.google ?? null;
-    if (provider === "openai") model = extendConfig.default_model.openai ?? null;
-    if (provider === "dashscope") model = extendConfig.default_model.dashscope ?? null;
-    if (provider === "replicate") model = extendConfig.default_model.replicate ?? null;
-  }
-  model = model || providerModule.getDefaultModel();
-
-  const outputPath = normalizeOutputImagePath(mergedArgs.imagePath);
-
-  let imageData: Uint8Array;
-  let retried = false;
-
-  while (true) {
-    try {
-      imageData = await providerModule.generateImage(prompt, model, mergedArgs);
-      break;
-    } catch (e) {
-      if (!retried && isRetryableGenerationError(e)) {
-        retried = true;
-        console.error("Generation failed, retrying...");
-        continue;
-      }
-      throw e;
-    }
-  }
-
-  const dir = path.dirname(outputPath);
-  await mkdir(dir, { recursive: true });
-  await writeFile(outputPath, imageData);
+  const { savedImages, sidecars, provider, model, attempts, cache, dimensions } = await generateAndSave(mergedArgs, extendConfig, prompt, mergedArgs.imagePath);
 
   if (mergedArgs.json) {
     console.log(
       JSON.stringify(
         {
-          savedImage: outputPath,
+          savedImage: savedImages[0],
+          savedImages,
+          sidecars,
           provider,
           model,
+          attempts,
+          cached: cache.status === "hit",
+          cacheKey: cache.key,
+          session: mergedArgs.session,
+          dimensions,
           prompt: prompt.slice(0, 200),
         },
         null,
@@ -486,7 +1456,7 @@ async function main(): Promise<void> {
       )
     );
   } else {
-    console.log(outputPath);
+    for (const p of savedImages) console.log(p);
   }
 }
 
@@ -0,0 +1,195 @@
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { tmpdir } from "node:os";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import type { FitMode, OutputFormat } from "./types";
+import { isPng, readPngSize } from "./png";
+
+export type Dimensions = { width: number; height: number };
+
+export type PostprocessOptions = {
+  fit: Dimensions | null;
+  fitMode: FitMode;
+  format: OutputFormat | null;
+  quality: number | null;
+};
+
+const DEFAULT_LOSSY_QUALITY = 80;
+
+export function parseDimensions(value: string): Dimensions | null {
+  const match = value.trim().match(/^(\d+)\s*[x*]\s*(\d+)$/i);
+  if (!match) return null;
+  const width = parseInt(match[1]!, 10);
+  const height = parseInt(match[2]!, 10);
+  if (width <= 0 || height <= 0) return null;
+  return { width, height };
+}
+
+export function getFormatExtension(format: OutputFormat): string {
+  return format === "jpeg" ? ".jpg" : `.${format}`;
+}
+
+function detectFormat(bytes: Uint8Array): OutputFormat | null {
+  if (isPng(bytes)) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  if (Buffer.from(bytes.subarray(0, 4)).toString("ascii") === "RIFF" && Buffer.from(bytes.subarray(8, 12)).toString("ascii") === "WEBP") {
+    return "webp";
+  }
+  return null;
+}
+
+function readJpegSize(buf: Buffer): Dimensions | null {
+  let offset = 2;
+  while (offset + 9 < buf.length) {
+    if (buf[offset] !== 0xff) return null;
+    const marker = buf[offset + 1]!;
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buf.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebpSize(buf: Buffer): Dimensions | null {
+  const chunk = buf.toString("ascii", 12, 16);
+  if (chunk === "VP8X") {
+    return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === "VP8L") {
+    const bits = buf.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8 ") {
+    return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+  }
+  return null;
+}
+
+export function readImageSize(bytes: Uint8Array): Dimensions | null {
+  const buf = Buffer.from(bytes);
+  try {
+    const format = detectFormat(bytes);
+    if (format === "png") return readPngSize(bytes);
+    if (format === "jpeg") return readJpegSize(buf);
+    if (format === "webp") return readWebpSize(buf);
+  } catch {}
+  return null;
+}
+
+async function commandExists(cmd: string): Promise<boolean> {
+  return new Promise((res) => {
+    const proc = spawn("which", [cmd], { stdio: "ignore" });
+    proc.on("close", (code) => res(code === 0));
+    proc.on("error", () => res(false));
+  });
+}
+
+function runCmd(cmd: string, args: string[]): Promise<{ code: number; stderr: string }> {
+  return new Promise((res) => {
+    const proc = spawn(cmd, args, { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    proc.stderr?.on("data", (d) => (stderr += d.toString()));
+    proc.on("close", (code) => res({ code: code ?? 1, stderr }));
+    proc.on("error", (e) => res({ code: 1, stderr: e.message }));
+  });
+}
+
+// Same tool preference as baoyu-compress-image: cwebp for WebP, sips on macOS,
+// then ImageMagick, then sharp.
+async function encode(input: string, output: string, format: OutputFormat, quality: number): Promise<void> {
+  if (format === "webp" && (await commandExists("cwebp"))) {
+    const { code, stderr } = await runCmd("cwebp", ["-q", String(quality), input, "-o", output]);
+    if (code !== 0) throw new Error(`cwebp failed: ${stderr}`);
+    return;
+  }
+  if (format !== "webp" && process.platform === "darwin") {
+    const { code, stderr } = await runCmd("sips", ["-s", "format", format, "-s", "formatOptions", String(quality), input, "--out", output]);
+    if (code !== 0) throw new Error(`sips failed: ${stderr}`);
+    return;
+  }
+  if (await commandExists("convert")) {
+    const { code, stderr } = await runCmd("convert", [input, "-quality", String(quality), output]);
+    if (code !== 0) throw new Error(`convert failed: ${stderr}`);
+    return;
+  }
+
+  const sharp = (await import("sharp")).default;
+  // sharp treats PNG quality as palette quantization; keep it lossless at 100.
+  if (format === "png") await sharp(input).png(quality < 100 ? { quality } : {}).toFile(output);
+  else if (format === "jpeg") await sharp(input).jpeg({ quality }).toFile(output);
+  else await sharp(input).webp({ quality }).toFile(output);
+}
+
+async function fitWithSharp(
+  input: string,
+  output: string,
+  fit: Dimensions,
+  mode: FitMode,
+  outputFormat: OutputFormat
+): Promise<void> {
+  const sharp = (await import("sharp")).default;
+  const opaque = outputFormat === "jpeg";
+  let pipeline = sharp(input).resize(fit.width, fit.height, {
+    fit: mode === "contain" ? "contain" : "cover",
+    position: mode === "smart-crop" ? sharp.strategy.attention : "centre",
+    background: opaque ? "#ffffff" : { r: 0, g: 0, b: 0, alpha: 0 },
+  });
+  if (opaque) pipeline = pipeline.flatten({ background: "#ffffff" });
+  await pipeline.toFile(output);
+}
+
+async function fitWithImagemagick(
+  input: string,
+  output: string,
+  fit: Dimensions,
+  mode: FitMode,
+  outputFormat: OutputFormat
+): Promise<void> {
+  const geometry = `${fit.width}x${fit.height}`;
+  const args =
+    mode === "contain"
+      ? [input, "-resize", geometry, "-background", outputFormat === "jpeg" ? "white" : "none", "-gravity", "center", "-extent", geometry, output]
+      : [input, "-resize", `${geometry}^`, "-gravity", "center", "-extent", geometry, output];
+  const { code, stderr } = await runCmd("convert", args);
+  if (code !== 0) throw new Error(`convert failed: ${stderr}`);
+}
+
+// Resizes/crops and converts one image. Works on temp files because the command-line
+// tools operate on paths. Smart crop needs sharp's attention strategy.
+export async function postprocessImage(image: Uint8Array, opts: PostprocessOptions): Promise<Uint8Array> {
+  const inputFormat = detectFormat(image) ?? "png";
+  const targetFormat = opts.format ?? inputFormat;
+  const reencode = opts.format !== null && opts.quality !== null;
+  if (!opts.fit && targetFormat === inputFormat && !reencode) return image;
+
+  const dir = await mkdtemp(path.join(tmpdir(), "baoyu-image-gen-"));
+  try {
+    let current = path.join(dir, `input${getFormatExtension(inputFormat)}`);
+    let currentFormat = inputFormat;
+    await writeFile(current, image);
+
+    if (opts.fit) {
+      // Fit into a lossless intermediate so padding keeps its alpha until the final encode.
+      const fitted = path.join(dir, "fitted.png");
+      if (opts.fitMode !== "smart-crop" && (await commandExists("convert"))) {
+        await fitWithImagemagick(current, fitted, opts.fit, opts.fitMode, targetFormat);
+      } else {
+        await fitWithSharp(current, fitted, opts.fit, opts.fitMode, targetFormat);
+      }
+      current = fitted;
+      currentFormat = "png";
+    }
+
+    if (targetFormat !== currentFormat || reencode) {
+      const converted = path.join(dir, `output${getFormatExtension(targetFormat)}`);
+      await encode(current, converted, targetFormat, opts.quality ?? (targetFormat === "png" ? 100 : DEFAULT_LOSSY_QUALITY));
+      current = converted;
+    }
+
+    return new Uint8Array(await readFile(current));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
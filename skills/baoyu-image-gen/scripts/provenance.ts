@@ -0,0 +1,176 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import type { Provider } from "./types";
+import { encodePngChunk, isPng } from "./png";
+import { readImageSize } from "./postprocess";
+
+const PROVENANCE_VERSION = 1;
+const PNG_TEXT_KEYWORD = "baoyu-image-gen";
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+// A JPEG segment length field is 16 bits and counts itself.
+const JPEG_SEGMENT_MAX_PAYLOAD = 65533;
+
+export type ProvenanceRecord = {
+  version: number;
+  generator: "baoyu-image-gen";
+  image: string;
+  index: number;
+  count: number;
+  imageSha256: string;
+  width: number | null;
+  height: number | null;
+  prompt: string;
+  promptFiles: string[];
+  provider: Provider;
+  model: string;
+  seed: number | null;
+  aspectRatio: string | null;
+  size: string | null;
+  quality: string | null;
+  imageSize: string | null;
+  fit: string | null;
+  references: Array<{ path: string; sha256: string }>;
+  edit: { path: string; sha256: string } | null;
+  mask: { path: string; sha256: string } | null;
+  session: string | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  retries: number;
+  fallbacks: number;
+  cached: boolean;
+  cacheKey: string | null;
+};
+
+type EmbeddedRecord = Omit<ProvenanceRecord, "imageSha256">;
+
+export type ProvenanceInput = Omit<
+  ProvenanceRecord,
+  | "version"
+  | "generator"
+  | "image"
+  | "index"
+  | "count"
+  | "imageSha256"
+  | "width"
+  | "height"
+  | "references"
+  | "edit"
+  | "mask"
+> & { referenceImages: string[]; editImage: string | null; mask: string | null };
+
+function sha256(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+export async function buildProvenance(
+  input: ProvenanceInput,
+  imagePath: string,
+  image: Uint8Array,
+  index: number,
+  count: number
+): Promise<ProvenanceRecord> {
+  const describeFile = async (p: string) => ({ path: path.resolve(p), sha256: sha256(await readFile(p)) });
+
+  const references: ProvenanceRecord["references"] = [];
+  for (const ref of input.referenceImages) {
+    references.push(await describeFile(ref));
+  }
+
+  const dimensions = readImageSize(image);
+  const { referenceImages: _refs, editImage: _edit, mask: _mask, ...rest } = input;
+  return {
+    version: PROVENANCE_VERSION,
+    generator: "baoyu-image-gen",
+    image: path.basename(imagePath),
+    index: index + 1,
+    count,
+    imageSha256: sha256(image),
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+    ...rest,
+    promptFiles: input.promptFiles.map((f) => path.resolve(f)),
+    references,
+    edit: input.editImage ? await describeFile(input.editImage) : null,
+    mask: input.mask ? await describeFile(input.mask) : null,
+  };
+}
+
+export function getSidecarPath(imagePath: string): string {
+  return `${imagePath}.json`;
+}
+
+// `image` is the file as written, embedded metadata included, so the hash verifies against the disk.
+export async function writeSidecar(imagePath: string, record: ProvenanceRecord, image: Uint8Array): Promise<string> {
+  const sidecarPath = getSidecarPath(imagePath);
+  await writeFile(sidecarPath, JSON.stringify({ ...record, imageSha256: sha256(image) }, null, 2) + "\n");
+  return sidecarPath;
+}
+
+export async function readSidecar(imagePath: string): Promise<ProvenanceRecord | null> {
+  try {
+    return JSON.parse(await readFile(getSidecarPath(imagePath), "utf8")) as ProvenanceRecord;
+  } catch {
+    return null;
+  }
+}
+
+// tEXt chunks are Latin-1 only, so non-ASCII prompt text is kept as JSON \u escapes.
+function toAsciiJson(record: EmbeddedRecord): string {
+  return JSON.stringify(record).replace(/[\u007f-\uffff]/g, (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`);
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+function embedPngText(png: Uint8Array, keyword: string, text: string): Uint8Array {
+  const data = Buffer.concat([Buffer.from(keyword, "latin1"), Buffer.from([0]), Buffer.from(text, "latin1")]);
+  const chunk = encodePngChunk("tEXt", data);
+
+  // Insert right before IEND, the last chunk.
+  const buf = Buffer.from(png);
+  const iendOffset = buf.length - 12;
+  if (buf.toString("ascii", iendOffset + 4, iendOffset + 8) !== "IEND") {
+    throw new Error("PNG does not end with IEND chunk");
+  }
+  return Buffer.concat([buf.subarray(0, iendOffset), chunk, buf.subarray(iendOffset)]);
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function embedJpegXmp(jpeg: Uint8Array, record: EmbeddedRecord): Uint8Array {
+  const xmp =
+    `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+    `<rdf:Description rdf:about="" xmlns:baoyu="https://github.com/JimLiu/baoyu-skills/ns/image-gen/1.0/">` +
+    `<baoyu:provenance>${escapeXml(JSON.stringify(record))}</baoyu:provenance>` +
+    `</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+  const payload = Buffer.concat([Buffer.from(XMP_NAMESPACE, "latin1"), Buffer.from(xmp, "utf8")]);
+  if (payload.length > JPEG_SEGMENT_MAX_PAYLOAD) {
+    throw new Error("provenance too large for a single XMP segment");
+  }
+
+  const segment = Buffer.alloc(4 + payload.length);
+  segment[0] = 0xff;
+  segment[1] = 0xe1;
+  segment.writeUInt16BE(payload.length + 2, 2);
+  payload.copy(segment, 4);
+
+  // Keep a leading JFIF APP0 first, as some readers require it.
+  const buf = Buffer.from(jpeg);
+  let insertAt = 2;
+  if (buf[2] === 0xff && buf[3] === 0xe0) insertAt = 4 + buf.readUInt16BE(4);
+  return Buffer.concat([buf.subarray(0, insertAt), segment, buf.subarray(insertAt)]);
+}
+
+// The embedded copy leaves out imageSha256: the file cannot carry its own hash.
+export function embedProvenance(image: Uint8Array, record: ProvenanceRecord): Uint8Array | null {
+  const { imageSha256: _hash, ...embedded } = record;
+  if (isPng(image)) return embedPngText(image, PNG_TEXT_KEYWORD, toAsciiJson(embedded));
+  if (isJpeg(image)) return embedJpegXmp(image, embedded);
+  return null;
+}
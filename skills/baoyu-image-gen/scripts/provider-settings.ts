@@ -0,0 +1,70 @@
+import type { ExtendConfig, Provider, ProviderSettings } from "./types";
+
+// Per-provider network settings from the EXTEND.md `providers` section. They are
+// set once after the config is loaded and read by the provider modules.
+
+const EMPTY_SETTINGS: ProviderSettings = { base_url: null, proxy: null, timeout_ms: null, params: null };
+
+let currentSettings: ExtendConfig["providers"] = {};
+
+export function setProviderSettings(settings: ExtendConfig["providers"] | undefined): void {
+  currentSettings = settings ?? {};
+}
+
+export function getProviderSettings(provider: Provider): ProviderSettings {
+  return currentSettings[provider] ?? EMPTY_SETTINGS;
+}
+
+// EXTEND.md base_url > <PROVIDER>_BASE_URL env > built-in default.
+export function resolveBaseUrl(provider: Provider, envValue: string | undefined, fallback: string): string;
+export function resolveBaseUrl(provider: Provider, envValue: string | undefined): string | null;
+export function resolveBaseUrl(provider: Provider, envValue: string | undefined, fallback: string | null = null): string | null {
+  const base = getProviderSettings(provider).base_url || envValue || fallback;
+  return base ? base.replace(/\/+$/g, "") : null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function deepMerge(target: Record<string, unknown>, extra: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(extra)) {
+    const existing = out[key];
+    out[key] = isPlainObject(existing) && isPlainObject(value) ? deepMerge(existing, value) : value;
+  }
+  return out;
+}
+
+// Merges the configured `params` into a JSON request body; nested objects
+// (e.g. generationConfig, parameters, input) are merged rather than replaced.
+export function withExtraParams<T extends Record<string, unknown>>(provider: Provider, body: T): T {
+  const { params } = getProviderSettings(provider);
+  return params ? (deepMerge(body, params) as T) : body;
+}
+
+// Adds the configured `params` to a multipart body; objects are sent as JSON strings.
+export function appendExtraParams(provider: Provider, form: FormData): void {
+  const { params } = getProviderSettings(provider);
+  for (const [key, value] of Object.entries(params ?? {})) {
+    form.set(key, typeof value === "string" ? value : JSON.stringify(value));
+  }
+}
+
+// fetch() with the provider's proxy and per-request timeout applied.
+export async function providerFetch(provider: Provider, url: string, init: RequestInit = {}): Promise<Response> {
+  const { proxy, timeout_ms } = getProviderSettings(provider);
+  try {
+    return await fetch(url, {
+      ...init,
+      ...(proxy ? { proxy } : {}),
+      ...(timeout_ms ? { signal: AbortSignal.timeout(timeout_ms) } : {}),
+    });
+  } catch (e) {
+    if (e instanceof Error && e.name === "TimeoutError") {
+      // Left untyped so the retry loop treats it like any other network failure.
+      throw new Error(`${provider} request timed out after ${timeout_ms}ms: ${url}`);
+    }
+    throw e;
+  }
+}
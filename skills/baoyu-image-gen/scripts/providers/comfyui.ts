@@ -0,0 +1,239 @@
+import path from "node:path";
+import { createHash, randomInt, randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { CliArgs, SeededImages } from "../types";
+import { AuthError, BadRequestError, ServerError, providerErrorFromResponse } from "../errors";
+import { providerFetch, resolveBaseUrl, withExtraParams } from "../provider-settings";
+
+// ComfyUI /prompt API. The workflow is a template exported with "Save (API Format)"
+// whose string inputs may contain {{prompt}}, {{width}}, {{height}}, {{batch_size}},
+// {{seed}}, {{model}} and {{image}} placeholders.
+
+const POLL_INTERVAL_MS = 1000;
+const NUMERIC_PLACEHOLDERS = new Set(["width", "height", "batch_size", "seed"]);
+
+export function getDefaultModel(): string {
+  return process.env.COMFYUI_IMAGE_MODEL || "workflow";
+}
+
+function getBaseUrl(): string | null {
+  return resolveBaseUrl("comfyui", process.env.COMFYUI_BASE_URL);
+}
+
+function parseAspectRatio(ar: string): { width: number; height: number } | null {
+  const match = ar.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const w = parseFloat(match[1]!);
+  const h = parseFloat(match[2]!);
+  if (w <= 0 || h <= 0) return null;
+  return { width: w, height: h };
+}
+
+function roundTo8(value: number): number {
+  return Math.max(64, Math.round(value / 8) * 8);
+}
+
+function getSize(args: CliArgs): { width: number; height: number } {
+  if (args.size) {
+    const match = args.size.match(/^(\d+)\s*[x*]\s*(\d+)$/i);
+    if (!match) throw new BadRequestError("comfyui", `Invalid size: ${args.size}`);
+    return { width: roundTo8(parseInt(match[1]!, 10)), height: roundTo8(parseInt(match[2]!, 10)) };
+  }
+
+  const longEdge = args.quality === "2k" ? 2048 : 1024;
+  const ratio = args.aspectRatio ? parseAspectRatio(args.aspectRatio) : null;
+  if (!ratio) return { width: longEdge, height: longEdge };
+  if (ratio.width >= ratio.height) {
+    return { width: longEdge, height: roundTo8((longEdge * ratio.height) / ratio.width) };
+  }
+  return { width: roundTo8((longEdge * ratio.width) / ratio.height), height: longEdge };
+}
+
+type Workflow = Record<string, { class_type?: string; inputs?: Record<string, unknown> }>;
+
+async function loadWorkflowTemplate(): Promise<string> {
+  const file = process.env.COMFYUI_WORKFLOW;
+  if (!file) {
+    throw new BadRequestError("comfyui", "COMFYUI_WORKFLOW is required: path to a workflow exported with \"Save (API Format)\"");
+  }
+  try {
+    return await readFile(path.resolve(file), "utf8");
+  } catch {
+    throw new BadRequestError("comfyui", `Workflow template not found: ${path.resolve(file)}`);
+  }
+}
+
+// Edits to the workflow change the output, so its contents are part of the cache key.
+export async function getCacheKeyParts(): Promise<Record<string, unknown>> {
+  const file = process.env.COMFYUI_WORKFLOW;
+  if (!file) return {};
+  try {
+    return { workflowSha256: createHash("sha256").update(await readFile(path.resolve(file))).digest("hex") };
+  } catch {
+    return {};
+  }
+}
+
+function usesPlaceholder(template: string, name: string): boolean {
+  return template.includes(`{{${name}}}`);
+}
+
+// A string that is exactly a numeric placeholder becomes a number; any other
+// placeholder is interpolated as text.
+function fillPlaceholders(value: unknown, vars: Record<string, string | number>): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{(\w+)\}\}$/);
+    if (whole && NUMERIC_PLACEHOLDERS.has(whole[1]!) && whole[1]! in vars) return vars[whole[1]!];
+    return value.replace(/\{\{(\w+)\}\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m));
+  }
+  if (Array.isArray(value)) return value.map((v) => fillPlaceholders(v, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillPlaceholders(v, vars)]));
+  }
+  return value;
+}
+
+function buildWorkflow(template: string, vars: Record<string, string | number>): Workflow {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch (e) {
+    throw new BadRequestError("comfyui", `Invalid workflow JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!parsed || typeof parsed !== "object" || "nodes" in parsed) {
+    throw new BadRequestError("comfyui", "Workflow must be in API format (use \"Save (API Format)\" in ComfyUI)");
+  }
+  return fillPlaceholders(parsed, vars) as Workflow;
+}
+
+async function uploadImage(baseUrl: string, refPath: string): Promise<string> {
+  const form = new FormData();
+  const bytes = await readFile(refPath);
+  form.append("image", new Blob([bytes]), path.basename(refPath));
+  form.append("overwrite", "true");
+
+  const res = await providerFetch("comfyui", `${baseUrl}/upload/image`, { method: "POST", body: form });
+  if (!res.ok) {
+    throw await providerErrorFromResponse("comfyui", res, "ComfyUI upload error");
+  }
+  const result = (await res.json()) as { name: string; subfolder?: string };
+  return result.subfolder ? `${result.subfolder}/${result.name}` : result.name;
+}
+
+type HistoryImage = { filename: string; subfolder: string; type: string };
+
+type HistoryEntry = {
+  status?: { status_str?: string; completed?: boolean; messages?: Array<[string, unknown]> };
+  outputs?: Record<string, { images?: HistoryImage[] }>;
+};
+
+async function queuePrompt(baseUrl: string, workflow: Workflow): Promise<string> {
+  const res = await providerFetch("comfyui", `${baseUrl}/prompt`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(withExtraParams("comfyui", { prompt: workflow, client_id: randomUUID() })),
+  });
+  if (!res.ok) {
+    throw await providerErrorFromResponse("comfyui", res, "ComfyUI prompt error");
+  }
+  const result = (await res.json()) as { prompt_id?: string };
+  if (!result.prompt_id) throw new Error("ComfyUI did not return a prompt_id");
+  return result.prompt_id;
+}
+
+async function waitForHistory(baseUrl: string, promptId: string): Promise<HistoryEntry> {
+  const timeoutMs = parseInt(process.env.COMFYUI_TIMEOUT_MS || "600000", 10);
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const res = await providerFetch("comfyui", `${baseUrl}/history/${promptId}`);
+    if (!res.ok) {
+      throw await providerErrorFromResponse("comfyui", res, "ComfyUI history error");
+    }
+    const history = (await res.json()) as Record<string, HistoryEntry>;
+    const entry = history[promptId];
+    if (entry?.status?.status_str === "error") {
+      const detail = entry.status.messages?.find(([type]) => type === "execution_error")?.[1];
+      throw new ServerError("comfyui", `ComfyUI execution error: ${JSON.stringify(detail ?? entry.status)}`);
+    }
+    if (entry && (entry.status?.completed ?? true)) return entry;
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`ComfyUI prompt ${promptId} did not finish within ${timeoutMs}ms`);
+}
+
+async function downloadOutputs(baseUrl: string, entry: HistoryEntry): Promise<Uint8Array[]> {
+  const all = Object.values(entry.outputs ?? {}).flatMap((o) => o.images ?? []);
+  // Preview nodes write "temp" images; prefer what SaveImage nodes produced.
+  const saved = all.filter((img) => img.type === "output");
+  const images = saved.length > 0 ? saved : all;
+
+  const results: Uint8Array[] = [];
+  for (const img of images) {
+    const params = new URLSearchParams({ filename: img.filename, subfolder: img.subfolder, type: img.type });
+    const res = await providerFetch("comfyui", `${baseUrl}/view?${params}`);
+    if (!res.ok) throw new Error(`Failed to download ComfyUI output ${img.filename}`);
+    results.push(new Uint8Array(await res.arrayBuffer()));
+  }
+  return results;
+}
+
+export async function generateImage(
+  prompt: string,
+  model: string,
+  args: CliArgs
+): Promise<SeededImages> {
+  const baseUrl = getBaseUrl();
+  if (!baseUrl) throw new AuthError("comfyui", "COMFYUI_BASE_URL or providers.comfyui.base_url in EXTEND.md is required (e.g. http://127.0.0.1:8188)");
+
+  if (args.editImage) {
+    throw new BadRequestError(
+      "comfyui",
+      "--edit is not supported with ComfyUI; pass the image with --ref to a workflow with an {{image}} placeholder, or use --provider sdwebui."
+    );
+  }
+
+  const template = await loadWorkflowTemplate();
+  if (usesPlaceholder(template, "model") && model === "workflow") {
+    throw new BadRequestError("comfyui", "Workflow uses {{model}}; pass --model <checkpoint> or set COMFYUI_IMAGE_MODEL");
+  }
+  if (args.referenceImages.length > 0 && !usesPlaceholder(template, "image")) {
+    throw new BadRequestError("comfyui", "Reference images need a workflow with an {{image}} placeholder (e.g. a LoadImage node)");
+  }
+
+  const { width, height } = getSize(args);
+  const vars: Record<string, string | number> = { prompt, width, height, model };
+  if (args.referenceImages.length > 0) {
+    if (args.referenceImages.length > 1) {
+      console.error("Warning: ComfyUI workflows take a single {{image}}; using the first reference image.");
+    }
+    vars.image = await uploadImage(baseUrl, args.referenceImages[0]!);
+  }
+
+  // Without {{batch_size}} each image is queued as a separate prompt.
+  const batched = usesPlaceholder(template, "batch_size");
+  const runs = batched ? 1 : args.n;
+  vars.batch_size = batched ? args.n : 1;
+
+  console.log(`Generating image with ComfyUI (${model})...`, { width, height, n: args.n });
+
+  // A workflow without {{seed}} uses the seed saved in it, which is not recorded.
+  const seeded = usesPlaceholder(template, "seed");
+  const images: Uint8Array[] = [];
+  const seeds: Array<number | null> = [];
+  for (let i = 0; i < runs; i++) {
+    if (runs > 1) console.log(`Image ${i + 1}/${runs}`);
+    // ComfyUI skips re-executing an identical prompt, so every run gets a fresh seed.
+    const seed = randomInt(0, 2 ** 47);
+    const workflow = buildWorkflow(template, { ...vars, seed });
+    const promptId = await queuePrompt(baseUrl, workflow);
+    const entry = await waitForHistory(baseUrl, promptId);
+    const outputs = await downloadOutputs(baseUrl, entry);
+    if (outputs.length === 0) throw new Error("No image in ComfyUI outputs (does the workflow have a SaveImage node?)");
+    images.push(...outputs);
+    seeds.push(...outputs.map(() => (seeded ? seed : null)));
+  }
+
+  return { images: images.slice(0, args.n), seeds: seeds.slice(0, args.n) };
+}
@@ -1,4 +1,6 @@
 import type { CliArgs } from "../types";
+import { AuthError, BadRequestError, providerErrorFromResponse } from "../errors";
+import { providerFetch, resolveBaseUrl, withExtraParams } from "../provider-settings";
 
 export function getDefaultModel(): string {
   return process.env.DASHSCOPE_IMAGE_MODEL || "z-image-turbo";
@@ -9,8 +11,7 @@ function getApiKey(): string | null {
 }
 
 function getBaseUrl(): string {
-  const base = process.env.DASHSCOPE_BASE_URL || "https://dashscope.aliyuncs.com";
-  return base.replace(/\/+$/g, "");
+  return resolveBaseUrl("dashscope", process.env.DASHSCOPE_BASE_URL, "https://dashscope.aliyuncs.com");
 }
 
 function parseAspectRatio(ar: string): { width: number; height: number } | null {
@@ -79,16 +80,39 @@ export async function generateImage(
   prompt: string,
   model: string,
   args: CliArgs
-): Promise<Uint8Array> {
+): Promise<Uint8Array[]> {
   const apiKey = getApiKey();
-  if (!apiKey) throw new Error("DASHSCOPE_API_KEY is required");
+  if (!apiKey) throw new AuthError("dashscope", "DASHSCOPE_API_KEY is required");
+
+  if (args.editImage) {
+    throw new BadRequestError(
+      "dashscope",
+      "--edit is not supported with DashScope provider. Use --provider openai, google, replicate or sdwebui."
+    );
+  }
 
   if (args.referenceImages.length > 0) {
-    throw new Error(
+    throw new BadRequestError(
+      "dashscope",
       "Reference images are not supported with DashScope provider in baoyu-image-gen. Use --provider google with a Gemini multimodal model."
     );
   }
 
+  // The multimodal-generation endpoint returns a single image per call.
+  const images: Uint8Array[] = [];
+  for (let i = 0; i < args.n; i++) {
+    if (args.n > 1) console.log(`Image ${i + 1}/${args.n}`);
+    images.push(await generateOne(apiKey, prompt, model, args));
+  }
+  return images;
+}
+
+async function generateOne(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  args: CliArgs
+): Promise<Uint8Array> {
   const size = args.size ? normalizeSize(args.size) : getSizeFromAspectRatio(args.aspectRatio, args.quality);
   const url = `${getBaseUrl()}/api/v1/services/aigc/multimodal-generation/generation`;
 
@@ -110,18 +134,17 @@ export async function generateImage(
 
   console.log(`Generating image with DashScope (${model})...`, { size });
 
-  const res = await fetch(url, {
+  const res = await providerFetch("dashscope", url, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
     },
-    body: JSON.stringify(body),
+    body: JSON.stringify(withExtraParams("dashscope", body)),
   });
 
   if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`DashScope API error (${res.status}): ${err}`);
+    throw await providerErrorFromResponse("dashscope", res, "DashScope API error");
   }
 
   const result = await res.json() as {
@@ -155,7 +178,7 @@ export async function generateImage(
   }
 
   if (imageData.startsWith("http://") || imageData.startsWith("https://")) {
-    const imgRes = await fetch(imageData);
+    const imgRes = await providerFetch("dashscope", imageData);
     if (!imgRes.ok) throw new Error("Failed to download image");
     const buf = await imgRes.arrayBuffer();
     return new Uint8Array(buf);
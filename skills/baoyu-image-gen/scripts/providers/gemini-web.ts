@@ -0,0 +1,145 @@
+import path from "node:path";
+import { tmpdir } from "node:os";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import type { CliArgs } from "../types";
+import { AuthError, BadRequestError, RateLimitError } from "../errors";
+import { getProviderSettings } from "../provider-settings";
+import type { GeneratedImage, GeminiClient, Model } from "../../../baoyu-danger-gemini-web/scripts/gemini-webapi/index.js";
+
+// Cookie-based Gemini web session, shared with baoyu-danger-gemini-web (same cookie
+// file and Chrome profile: GEMINI_WEB_COOKIE_PATH, GEMINI_WEB_CHROME_PROFILE_DIR).
+// The client lives in that skill, so it is loaded only when this provider runs.
+
+type GeminiWebApi = typeof import("../../../baoyu-danger-gemini-web/scripts/gemini-webapi/index.js");
+type GeminiWebPaths = typeof import("../../../baoyu-danger-gemini-web/scripts/gemini-webapi/utils/paths.js");
+
+const LOGIN_HINT =
+  "Refresh the Gemini web session with: npx -y bun skills/baoyu-danger-gemini-web/scripts/main.ts --login";
+const MISSING_SKILL =
+  "gemini-web needs the baoyu-danger-gemini-web skill installed next to baoyu-image-gen (skills/baoyu-danger-gemini-web).";
+
+async function loadPaths(): Promise<GeminiWebPaths | null> {
+  try {
+    return await import("../../../baoyu-danger-gemini-web/scripts/gemini-webapi/utils/paths.js");
+  } catch {
+    return null;
+  }
+}
+
+async function loadApi(): Promise<GeminiWebApi> {
+  try {
+    return await import("../../../baoyu-danger-gemini-web/scripts/gemini-webapi/index.js");
+  } catch (e) {
+    throw new BadRequestError("gemini-web", `${MISSING_SKILL} (${e instanceof Error ? e.message : String(e)})`);
+  }
+}
+
+// The session's cookie file, or null when baoyu-danger-gemini-web is not installed.
+export async function resolveCookiePath(): Promise<string | null> {
+  return (await loadPaths())?.resolveGeminiWebCookiePath() ?? null;
+}
+
+export function getDefaultModel(): string {
+  return process.env.GEMINI_WEB_IMAGE_MODEL || "gemini-3-pro";
+}
+
+function resolveModel(api: GeminiWebApi, id: string): Model {
+  const { Model } = api;
+  const k = id.trim();
+  if (k === "gemini-3-pro" || k === "gemini-3.0-pro") return Model.G_3_0_PRO;
+  if (k === "gemini-3-flash" || k === "gemini-3.0-flash") return Model.G_3_0_FLASH;
+  if (k === "gemini-3-flash-thinking" || k === "gemini-3.0-flash-thinking") return Model.G_3_0_FLASH_THINKING;
+  if (k === "gemini-3.1-pro-preview") return Model.G_3_1_PRO_PREVIEW;
+  try {
+    return Model.from_name(k);
+  } catch (e) {
+    throw new BadRequestError("gemini-web", e instanceof Error ? e.message : String(e));
+  }
+}
+
+function addAspectRatioToPrompt(prompt: string, ar: string | null): string {
+  if (!ar) return prompt;
+  return `${prompt} Aspect ratio: ${ar}.`;
+}
+
+function toProviderError(api: GeminiWebApi, e: unknown): unknown {
+  const { AuthError: GeminiAuthError, UsageLimitExceeded, TemporarilyBlocked, ModelInvalid } = api;
+  if (e instanceof GeminiAuthError) return new AuthError("gemini-web", `${e.message}\n${LOGIN_HINT}`);
+  if (e instanceof UsageLimitExceeded || e instanceof TemporarilyBlocked) {
+    return new RateLimitError("gemini-web", e.message, null);
+  }
+  if (e instanceof ModelInvalid) return new BadRequestError("gemini-web", e.message);
+  return e;
+}
+
+async function openClient(api: GeminiWebApi): Promise<GeminiClient> {
+  const client = new api.GeminiClient();
+  const timeoutMs = getProviderSettings("gemini-web").timeout_ms;
+  try {
+    // No background cookie rotation: the client lives for a single generation.
+    await client.init({ timeout: timeoutMs ? timeoutMs / 1000 : 300, auto_refresh: false, verbose: false });
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new AuthError(
+      "gemini-web",
+      `Gemini web session could not be initialized; cookies in ${await resolveCookiePath()} are missing or expired (${reason}).\n${LOGIN_HINT}`
+    );
+  }
+  return client;
+}
+
+async function downloadImage(image: GeneratedImage): Promise<Uint8Array> {
+  const dir = await mkdtemp(path.join(tmpdir(), "baoyu-gemini-web-"));
+  try {
+    // full_size=true asks for the 2048px rendition.
+    const saved = await image.save(dir, "image.png", null, false, false, true);
+    if (!saved) throw new Error("Failed to download Gemini web image");
+    return new Uint8Array(await readFile(saved));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+export async function generateImage(
+  prompt: string,
+  model: string,
+  args: CliArgs
+): Promise<Uint8Array[]> {
+  if (args.editImage) {
+    throw new BadRequestError("gemini-web", "--edit is not supported with gemini-web; pass the image with --ref instead.");
+  }
+  if (args.size) {
+    console.error("Warning: gemini-web ignores --size; use --ar (and --fit for exact dimensions).");
+  }
+
+  const api = await loadApi();
+  const webModel = resolveModel(api, model);
+  const fullPrompt = addAspectRatioToPrompt(prompt, args.aspectRatio);
+  const files = args.referenceImages.length > 0 ? args.referenceImages.map((p) => path.resolve(p)) : null;
+
+  const client = await openClient(api);
+  try {
+    const images: Uint8Array[] = [];
+    for (let i = 0; i < args.n; i++) {
+      if (args.n > 1) console.log(`Image ${i + 1}/${args.n}`);
+      console.log(`Generating image with Gemini web (${webModel.model_name})...`, { refs: files?.length ?? 0 });
+
+      let output;
+      try {
+        output = await client.generate_content(fullPrompt, files, webModel);
+      } catch (e) {
+        throw toProviderError(api, e);
+      }
+
+      const generated = output.images.find((img): img is GeneratedImage => img instanceof api.GeneratedImage);
+      if (!generated) {
+        const text = (output.text ?? "").trim().slice(0, 200);
+        throw new Error(`Gemini web returned no generated image${text ? `: ${text}` : ""}`);
+      }
+      images.push(await downloadImage(generated));
+    }
+    return images;
+  } finally {
+    await client.close();
+  }
+}
@@ -2,6 +2,17 @@ import path from "node:path";
 import { readFile } from "node:fs/promises";
 import { execSync } from "node:child_process";
 import type { CliArgs } from "../types";
+import {
+  AuthError,
+  BadRequestError,
+  SafetyError,
+  classifyHttpError,
+  parseRetryAfter,
+  type ProviderError,
+} from "../errors";
+import { getProviderSettings, providerFetch, resolveBaseUrl, withExtraParams } from "../provider-settings";
+import { appendSessionTurns, loadSession, readSessionHistory, type ContentPart, type ContentTurn } from "../sessions";
+import { reportTokenUsage } from "../usage";
 
 const GOOGLE_MULTIMODAL_MODELS = [
   "gemini-3-pro-image-preview",
@@ -41,9 +52,11 @@ function getGoogleImageSize(args: CliArgs): "1K" | "2K" | "4K" {
 }
 
 function getGoogleBaseUrl(): string {
-  const base =
-    process.env.GOOGLE_BASE_URL || "https://generativelanguage.googleapis.com";
-  return base.replace(/\/+$/g, "");
+  return resolveBaseUrl(
+    "google",
+    process.env.GOOGLE_BASE_URL,
+    "https://generativelanguage.googleapis.com",
+  );
 }
 
 function buildGoogleUrl(pathname: string): string {
@@ -60,6 +73,7 @@ function toModelPath(model: string): string {
 
 function getHttpProxy(): string | null {
   return (
+    getProviderSettings("google").proxy ||
     process.env.https_proxy ||
     process.env.HTTPS_PROXY ||
     process.env.http_proxy ||
@@ -69,6 +83,29 @@ function getHttpProxy(): string | null {
   );
 }
 
+type GoogleApiErrorBody = {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: Array<{ "@type"?: string; retryDelay?: string }>;
+};
+
+function toGoogleApiError(
+  error: GoogleApiErrorBody,
+  fallbackStatus: number,
+): ProviderError {
+  const status = error.code ?? fallbackStatus;
+  const retryInfo = error.details?.find((d) =>
+    d["@type"]?.endsWith("google.rpc.RetryInfo"),
+  );
+  return classifyHttpError(
+    "google",
+    status,
+    `Google API error (${status}): ${error.message ?? error.status ?? "unknown error"}`,
+    parseRetryAfter(retryInfo?.retryDelay),
+  );
+}
+
 async function postGoogleJsonViaCurl<T>(
   url: string,
   apiKey: string,
@@ -77,17 +114,22 @@ async function postGoogleJsonViaCurl<T>(
   const proxy = getHttpProxy();
   const bodyStr = JSON.stringify(body);
   const proxyArgs = proxy ? `-x "${proxy}"` : "";
+  const maxTimeSec = Math.ceil(
+    (getProviderSettings("google").timeout_ms ?? 300000) / 1000,
+  );
 
   const result = execSync(
-    `curl -s --connect-timeout 30 --max-time 300 ${proxyArgs} "${url}" -H "Content-Type: application/json" -H "x-goog-api-key: ${apiKey}" -d @-`,
-    { input: bodyStr, maxBuffer: 100 * 1024 * 1024, timeout: 310000 },
+    `curl -s --connect-timeout 30 --max-time ${maxTimeSec} ${proxyArgs} "${url}" -H "Content-Type: application/json" -H "x-goog-api-key: ${apiKey}" -d @-`,
+    {
+      input: bodyStr,
+      maxBuffer: 100 * 1024 * 1024,
+      timeout: (maxTimeSec + 10) * 1000,
+    },
   );
 
   const parsed = JSON.parse(result.toString()) as any;
   if (parsed.error) {
-    throw new Error(
-      `Google API error (${parsed.error.code}): ${parsed.error.message}`,
-    );
+    throw toGoogleApiError(parsed.error, 500);
   }
   return parsed as T;
 }
@@ -97,7 +139,7 @@ async function postGoogleJsonViaFetch<T>(
   apiKey: string,
   body: unknown,
 ): Promise<T> {
-  const res = await fetch(url, {
+  const res = await providerFetch("google", url, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -108,18 +150,33 @@ async function postGoogleJsonViaFetch<T>(
 
   if (!res.ok) {
     const err = await res.text();
-    throw new Error(`Google API error (${res.status}): ${err}`);
+    let body: { error?: GoogleApiErrorBody } | null = null;
+    try {
+      body = JSON.parse(err);
+    } catch {}
+    if (body?.error) throw toGoogleApiError(body.error, res.status);
+    throw classifyHttpError(
+      "google",
+      res.status,
+      `Google API error (${res.status}): ${err}`,
+      parseRetryAfter(res.headers.get("retry-after")),
+    );
   }
 
   return (await res.json()) as T;
 }
 
-async function postGoogleJson<T>(pathname: string, body: unknown): Promise<T> {
+async function postGoogleJson<T>(
+  pathname: string,
+  requestBody: Record<string, unknown>,
+): Promise<T> {
   const apiKey = getGoogleApiKey();
-  if (!apiKey) throw new Error("GOOGLE_API_KEY or GEMINI_API_KEY is required");
+  if (!apiKey)
+    throw new AuthError("google", "GOOGLE_API_KEY or GEMINI_API_KEY is required");
 
   const url = buildGoogleUrl(pathname);
   const proxy = getHttpProxy();
+  const body = withExtraParams("google", requestBody);
 
   // When an HTTP proxy is detected, use curl instead of fetch.
   // Bun's fetch has a known issue where long-lived connections through
@@ -165,11 +222,38 @@ async function readImageAsBase64(
   return { data: buf.toString("base64"), mimeType };
 }
 
-function extractInlineImageData(response: {
+type GeminiResponse = {
   candidates?: Array<{
-    content?: { parts?: Array<{ inlineData?: { data?: string } }> };
+    finishReason?: string;
+    content?: { parts?: Array<ContentPart & { thought?: boolean }> };
   }>;
-}): string | null {
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+};
+
+const GEMINI_SAFETY_REASONS = [
+  "SAFETY",
+  "IMAGE_SAFETY",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+];
+
+function getGeminiBlockReason(response: GeminiResponse): string | null {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) return blockReason;
+  for (const candidate of response.candidates || []) {
+    if (
+      candidate.finishReason &&
+      GEMINI_SAFETY_REASONS.includes(candidate.finishReason)
+    ) {
+      return candidate.finishReason;
+    }
+  }
+  return null;
+}
+
+function extractInlineImageData(response: GeminiResponse): string | null {
   for (const candidate of response.candidates || []) {
     for (const part of candidate.content?.parts || []) {
       const data = part.inlineData?.data;
@@ -179,81 +263,136 @@ function extractInlineImageData(response: {
   return null;
 }
 
-function extractPredictedImageData(response: {
+function extractPredictedImageData(candidate: any): string | null {
+  if (!candidate || typeof candidate !== "object") return null;
+  if (typeof candidate.imageBytes === "string") return candidate.imageBytes;
+  if (typeof candidate.bytesBase64Encoded === "string")
+    return candidate.bytesBase64Encoded;
+  if (typeof candidate.data === "string") return candidate.data;
+  const image = candidate.image;
+  if (image && typeof image === "object") {
+    if (typeof image.imageBytes === "string") return image.imageBytes;
+    if (typeof image.bytesBase64Encoded === "string")
+      return image.bytesBase64Encoded;
+    if (typeof image.data === "string") return image.data;
+  }
+  return null;
+}
+
+function extractAllPredictedImageData(response: {
   predictions?: Array<any>;
   generatedImages?: Array<any>;
-}): string | null {
+}): string[] {
   const candidates = [
     ...(response.predictions || []),
     ...(response.generatedImages || []),
   ];
+  const out: string[] = [];
   for (const candidate of candidates) {
-    if (!candidate || typeof candidate !== "object") continue;
-    if (typeof candidate.imageBytes === "string") return candidate.imageBytes;
-    if (typeof candidate.bytesBase64Encoded === "string")
-      return candidate.bytesBase64Encoded;
-    if (typeof candidate.data === "string") return candidate.data;
-    const image = candidate.image;
-    if (image && typeof image === "object") {
-      if (typeof image.imageBytes === "string") return image.imageBytes;
-      if (typeof image.bytesBase64Encoded === "string")
-        return image.bytesBase64Encoded;
-      if (typeof image.data === "string") return image.data;
-    }
+    const data = extractPredictedImageData(candidate);
+    if (data) out.push(data);
   }
-  return null;
+  return out;
 }
 
-async function generateWithGemini(
+async function generateOneWithGemini(
   prompt: string,
   model: string,
   args: CliArgs,
 ): Promise<Uint8Array> {
-  const promptWithAspect = addAspectRatioToPrompt(prompt, args.aspectRatio);
-  const parts: Array<{
-    text?: string;
-    inlineData?: { data: string; mimeType: string };
-  }> = [];
+  let promptWithAspect = addAspectRatioToPrompt(prompt, args.aspectRatio);
+  const parts: ContentPart[] = [];
+  if (args.editImage) {
+    const { data, mimeType } = await readImageAsBase64(args.editImage);
+    parts.push({ inlineData: { data, mimeType } });
+    if (args.referenceImages.length > 0) {
+      promptWithAspect = `Edit the first image; the other images are references.\n\n${promptWithAspect}`;
+    }
+  }
   for (const refPath of args.referenceImages) {
     const { data, mimeType } = await readImageAsBase64(refPath);
     parts.push({ inlineData: { data, mimeType } });
   }
   parts.push({ text: promptWithAspect });
 
+  // With --session, earlier turns (including the images Gemini returned) are
+  // replayed so the prompt can refer to "the last image".
+  let history: ContentTurn[] = [];
+  if (args.session) {
+    const session = await loadSession(args.session);
+    if (session) {
+      if (session.model !== model) {
+        console.error(`Warning: session ${args.session} was started with ${session.model}; continuing with ${model}.`);
+      }
+      history = await readSessionHistory(session);
+    }
+  }
+  const userTurn: ContentTurn = { role: "user", parts };
+
   const imageConfig: { imageSize: "1K" | "2K" | "4K" } = {
     imageSize: getGoogleImageSize(args),
   };
 
-  console.log("Generating image with Gemini...", imageConfig);
-  const response = await postGoogleJson<{
-    candidates?: Array<{
-      content?: { parts?: Array<{ inlineData?: { data?: string } }> };
-    }>;
-  }>(`${toModelPath(model)}:generateContent`, {
-    contents: [
-      {
-        role: "user",
-        parts,
+  console.log("Generating image with Gemini...", args.session ? { ...imageConfig, session: args.session } : imageConfig);
+  const response = await postGoogleJson<GeminiResponse>(
+    `${toModelPath(model)}:generateContent`,
+    {
+      contents: [...history, userTurn],
+      generationConfig: {
+        responseModalities: ["IMAGE"],
+        imageConfig,
       },
-    ],
-    generationConfig: {
-      responseModalities: ["IMAGE"],
-      imageConfig,
     },
-  });
+  );
   console.log("Generation completed.");
+  if (response.usageMetadata) {
+    const { promptTokenCount, candidatesTokenCount, totalTokenCount } = response.usageMetadata;
+    reportTokenUsage(promptTokenCount, candidatesTokenCount, totalTokenCount);
+  }
 
   const imageData = extractInlineImageData(response);
-  if (imageData) return Uint8Array.from(Buffer.from(imageData, "base64"));
+  if (imageData) {
+    if (args.session) {
+      // Thought parts are dropped; the signatures on the answer parts carry the context.
+      const modelParts = (response.candidates?.[0]?.content?.parts ?? [])
+        .filter((p) => !p.thought)
+        .map(({ thought: _thought, ...part }) => part);
+      await appendSessionTurns(args.session, model, [userTurn, { role: "model", parts: modelParts }]);
+    }
+    return Uint8Array.from(Buffer.from(imageData, "base64"));
+  }
+
+  const blockReason = getGeminiBlockReason(response);
+  if (blockReason) {
+    throw new SafetyError(
+      "google",
+      `Gemini refused to generate the image (${blockReason})`,
+    );
+  }
 
   throw new Error("No image in response");
 }
 
+// Gemini multimodal returns one image per request, so --n is honored by
+// issuing the same request repeatedly.
+async function generateWithGemini(
+  prompt: string,
+  model: string,
+  args: CliArgs,
+): Promise<Uint8Array[]> {
+  const images: Uint8Array[] = [];
+  for (let i = 0; i < args.n; i++) {
+    if (args.n > 1) console.log(`Image ${i + 1}/${args.n}`);
+    images.push(await generateOneWithGemini(prompt, model, args));
+  }
+  return images;
+}
+
 async function generateWithImagen(
   prompt: string,
   model: string,
   args: CliArgs,
-): Promise<Uint8Array> {
+): Promise<Uint8Array[]> {
   const fullPrompt = buildPromptWithAspect(
     prompt,
     args.aspectRatio,
@@ -290,8 +429,10 @@ async function generateWithImagen(
     parameters,
   });
 
-  const imageData = extractPredictedImageData(response);
-  if (imageData) return Uint8Array.from(Buffer.from(imageData, "base64"));
+  const imageData = extractAllPredictedImageData(response);
+  if (imageData.length > 0) {
+    return imageData.map((d) => Uint8Array.from(Buffer.from(d, "base64")));
+  }
 
   throw new Error("No image in response");
 }
@@ -300,18 +441,39 @@ export async function generateImage(
   prompt: string,
   model: string,
   args: CliArgs,
-): Promise<Uint8Array> {
+): Promise<Uint8Array[]> {
+  if (args.mask) {
+    throw new BadRequestError(
+      "google",
+      "Gemini does not support --mask. Drop --mask and describe the region to change in the prompt, or use --provider openai.",
+    );
+  }
+
   if (isGoogleImagen(model)) {
+    if (args.session) {
+      throw new BadRequestError(
+        "google",
+        "--session is not supported with Imagen models. Use gemini-3-pro-image-preview, gemini-3-flash-preview, or gemini-3.1-flash-image-preview.",
+      );
+    }
+    if (args.editImage) {
+      throw new BadRequestError(
+        "google",
+        "--edit is not supported with Imagen models. Use gemini-3-pro-image-preview, gemini-3-flash-preview, or gemini-3.1-flash-image-preview.",
+      );
+    }
     if (args.referenceImages.length > 0) {
-      throw new Error(
+      throw new BadRequestError(
+        "google",
         "Reference images are not supported with Imagen models. Use gemini-3-pro-image-preview, gemini-3-flash-preview, or gemini-3.1-flash-image-preview.",
       );
     }
     return generateWithImagen(prompt, model, args);
   }
 
-  if (!isGoogleMultimodal(model) && args.referenceImages.length > 0) {
-    throw new Error(
+  if (!isGoogleMultimodal(model) && (args.referenceImages.length > 0 || args.editImage)) {
+    throw new BadRequestError(
+      "google",
       "Reference images are only supported with Gemini multimodal models. Use gemini-3-pro-image-preview, gemini-3-flash-preview, or gemini-3.1-flash-image-preview.",
     );
   }
@@ -0,0 +1,270 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { CliArgs } from "../types";
+import { encodeRgbPng, readPngSize } from "../png";
+import {
+  AuthError,
+  BadRequestError,
+  RateLimitError,
+  SafetyError,
+  ServerError,
+} from "../errors";
+
+// Offline provider for exercising the pipeline without an API key. Renders a
+// deterministic placeholder PNG; MOCK_IMAGE_FAIL injects provider failures.
+
+type FailureMode = "rate-limit" | "safety" | "timeout" | "auth" | "bad-request" | "server";
+
+const FAILURE_MODES: FailureMode[] = ["rate-limit", "safety", "timeout", "auth", "bad-request", "server"];
+
+const MOCK_TIMEOUT_MS = 1000;
+
+let failuresInjected = 0;
+
+export function getDefaultModel(): string {
+  return process.env.MOCK_IMAGE_MODEL || "mock-placeholder";
+}
+
+// 5x7 glyphs, one 5-bit row per entry (MSB = leftmost pixel).
+const FONT: Record<string, number[]> = {
+  A: [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x1e],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  "0": [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  "1": [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  "2": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  "3": [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  "4": [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  "5": [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  "6": [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  "7": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  "8": [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  "9": [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  " ": [0, 0, 0, 0, 0, 0, 0],
+  ".": [0, 0, 0, 0, 0, 0x0c, 0x0c],
+  ",": [0, 0, 0, 0, 0x0c, 0x04, 0x08],
+  ":": [0, 0x0c, 0x0c, 0, 0x0c, 0x0c, 0],
+  "-": [0, 0, 0, 0x1f, 0, 0, 0],
+  "_": [0, 0, 0, 0, 0, 0, 0x1f],
+  "/": [0x01, 0x01, 0x02, 0x04, 0x08, 0x10, 0x10],
+  "#": [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+  "!": [0x04, 0x04, 0x04, 0x04, 0x04, 0, 0x04],
+  "?": [0x0e, 0x11, 0x01, 0x02, 0x04, 0, 0x04],
+  "(": [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ")": [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  "'": [0x0c, 0x04, 0x08, 0, 0, 0, 0],
+  '"': [0x0a, 0x0a, 0, 0, 0, 0, 0],
+  "=": [0, 0, 0x1f, 0, 0x1f, 0, 0],
+  "+": [0, 0x04, 0x04, 0x1f, 0x04, 0x04, 0],
+  "*": [0, 0x04, 0x15, 0x0e, 0x15, 0x04, 0],
+};
+const UNKNOWN_GLYPH = FONT["?"]!;
+
+function parseAspectRatio(ar: string): { width: number; height: number } | null {
+  const match = ar.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const w = parseFloat(match[1]!);
+  const h = parseFloat(match[2]!);
+  if (w <= 0 || h <= 0) return null;
+  return { width: w, height: h };
+}
+
+export function getMockDimensions(args: CliArgs): { width: number; height: number } {
+  if (args.size) {
+    const match = args.size.match(/^(\d+)\s*[x*]\s*(\d+)$/i);
+    if (!match) throw new BadRequestError("mock", `Invalid size: ${args.size}`);
+    return { width: parseInt(match[1]!, 10), height: parseInt(match[2]!, 10) };
+  }
+
+  if (args.editImage && !args.aspectRatio) {
+    const source = readPngSize(readFileSync(args.editImage));
+    if (source) return source;
+  }
+
+  const longEdge = args.quality === "normal" ? 1024 : 2048;
+  const ratio = args.aspectRatio ? parseAspectRatio(args.aspectRatio) : null;
+  if (!ratio) return { width: longEdge, height: longEdge };
+  if (ratio.width >= ratio.height) {
+    return { width: longEdge, height: Math.round((longEdge * ratio.height) / ratio.width) };
+  }
+  return { width: Math.round((longEdge * ratio.width) / ratio.height), height: longEdge };
+}
+
+class Canvas {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height * 3);
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, rgb: [number, number, number]): void {
+    const x0 = Math.max(0, Math.floor(x));
+    const y0 = Math.max(0, Math.floor(y));
+    const x1 = Math.min(this.width, Math.floor(x + w));
+    const y1 = Math.min(this.height, Math.floor(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        const o = (py * this.width + px) * 3;
+        this.pixels[o] = rgb[0];
+        this.pixels[o + 1] = rgb[1];
+        this.pixels[o + 2] = rgb[2];
+      }
+    }
+  }
+
+  drawText(text: string, x: number, y: number, scale: number, rgb: [number, number, number]): void {
+    let cx = x;
+    for (const ch of text) {
+      const glyph = FONT[ch.toUpperCase()] ?? UNKNOWN_GLYPH;
+      for (let row = 0; row < 7; row++) {
+        for (let col = 0; col < 5; col++) {
+          if (glyph[row]! & (0x10 >> col)) this.fillRect(cx + col * scale, y + row * scale, scale, scale, rgb);
+        }
+      }
+      cx += 6 * scale;
+    }
+  }
+}
+
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const words = text.replace(/\s+/g, " ").trim().split(" ");
+  const lines: string[] = [];
+  let line = "";
+  for (const word of words) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word.slice(0, maxChars);
+    if (lines.length >= maxLines) break;
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  if (lines.length === maxLines && words.join(" ").length > lines.join(" ").length) {
+    lines[maxLines - 1] = `${lines[maxLines - 1]!.slice(0, maxChars - 3)}...`;
+  }
+  return lines;
+}
+
+function renderPlaceholder(prompt: string, model: string, args: CliArgs, index: number): Uint8Array {
+  const { width, height } = getMockDimensions(args);
+  const hash = createHash("sha256")
+    .update(JSON.stringify([prompt, model, width, height, args.referenceImages, args.editImage, args.mask, index]))
+    .digest("hex");
+
+  const hue = parseInt(hash.slice(0, 4), 16) / 0xffff;
+  const bg: [number, number, number] = [
+    Math.round(80 + 100 * Math.abs(Math.sin(hue * Math.PI))),
+    Math.round(80 + 100 * Math.abs(Math.sin((hue + 1 / 3) * Math.PI))),
+    Math.round(80 + 100 * Math.abs(Math.sin((hue + 2 / 3) * Math.PI))),
+  ];
+  const fg: [number, number, number] = [255, 255, 255];
+
+  const canvas = new Canvas(width, height);
+  canvas.fillRect(0, 0, width, height, bg);
+
+  const border = Math.max(2, Math.round(Math.min(width, height) / 100));
+  canvas.fillRect(0, 0, width, border, fg);
+  canvas.fillRect(0, height - border, width, border, fg);
+  canvas.fillRect(0, 0, border, height, fg);
+  canvas.fillRect(width - border, 0, border, height, fg);
+
+  const scale = Math.max(1, Math.floor(Math.min(width, height) / 160));
+  const lineHeight = 9 * scale;
+  const margin = border + 4 * scale;
+  const maxChars = Math.max(8, Math.floor((width - margin * 2) / (6 * scale)));
+  const maxLines = Math.max(1, Math.floor((height - margin * 2) / lineHeight) - 4);
+
+  const mode = args.mask ? "INPAINT" : args.editImage ? "EDIT" : "MOCK";
+  const header = [`${mode} ${width}X${height}${args.n > 1 ? ` #${index + 1}` : ""}`, `SHA ${hash.slice(0, 16)}`];
+  let y = margin;
+  for (const line of header) {
+    canvas.drawText(line, margin, y, scale, fg);
+    y += lineHeight;
+  }
+  y += lineHeight;
+  for (const line of wrapText(prompt, maxChars, maxLines)) {
+    canvas.drawText(line, margin, y, scale, fg);
+    y += lineHeight;
+  }
+
+  return encodeRgbPng(width, height, canvas.pixels);
+}
+
+function getFailureMode(prompt: string): FailureMode | null {
+  const mode = process.env.MOCK_IMAGE_FAIL?.trim() as FailureMode | undefined;
+  if (!mode) return null;
+  if (!FAILURE_MODES.includes(mode)) {
+    throw new BadRequestError("mock", `Invalid MOCK_IMAGE_FAIL: ${mode} (expected ${FAILURE_MODES.join("|")})`);
+  }
+
+  const match = process.env.MOCK_IMAGE_FAIL_MATCH;
+  if (match && !prompt.includes(match)) return null;
+
+  const times = process.env.MOCK_IMAGE_FAIL_TIMES ? parseInt(process.env.MOCK_IMAGE_FAIL_TIMES, 10) : Infinity;
+  if (failuresInjected >= times) return null;
+  failuresInjected++;
+  return mode;
+}
+
+async function injectFailure(mode: FailureMode): Promise<never> {
+  const message = `Mock ${mode} failure (MOCK_IMAGE_FAIL)`;
+  switch (mode) {
+    case "rate-limit": {
+      const retryAfter = parseFloat(process.env.MOCK_IMAGE_RETRY_AFTER || "1");
+      throw new RateLimitError("mock", message, 429, retryAfter * 1000);
+    }
+    case "safety":
+      throw new SafetyError("mock", message);
+    case "auth":
+      throw new AuthError("mock", message, 401);
+    case "bad-request":
+      throw new BadRequestError("mock", message, 400);
+    case "server":
+      throw new ServerError("mock", message, 500);
+    case "timeout": {
+      // Untyped like a real network timeout, so it goes through the generic retry path.
+      await new Promise((r) => setTimeout(r, MOCK_TIMEOUT_MS));
+      throw new Error(message);
+    }
+  }
+}
+
+export async function generateImage(
+  prompt: string,
+  model: string,
+  args: CliArgs
+): Promise<Uint8Array[]> {
+  const delayMs = parseInt(process.env.MOCK_IMAGE_DELAY_MS || "0", 10);
+  if (delayMs > 0) await new Promise((r) => setTimeout(r, delayMs));
+
+  const failure = getFailureMode(prompt);
+  if (failure) await injectFailure(failure);
+
+  console.log(`Generating image with Mock (${model})...`, getMockDimensions(args));
+  return Array.from({ length: args.n }, (_, i) => renderPlaceholder(prompt, model, args, i));
+}
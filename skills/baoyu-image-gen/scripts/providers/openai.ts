@@ -1,12 +1,19 @@
 import path from "node:path";
 import { readFile } from "node:fs/promises";
 import type { CliArgs } from "../types";
+import { AuthError, BadRequestError, providerErrorFromResponse } from "../errors";
+import { appendExtraParams, providerFetch, resolveBaseUrl, withExtraParams } from "../provider-settings";
+import { reportTokenUsage } from "../usage";
 
 export function getDefaultModel(): string {
   return process.env.OPENAI_IMAGE_MODEL || "gpt-image-1.5";
 }
 
-type OpenAIImageResponse = { data: Array<{ url?: string; b64_json?: string }> };
+type OpenAIImageResponse = {
+  data: Array<{ url?: string; b64_json?: string }>;
+  // gpt-image models only.
+  usage?: { input_tokens?: number; output_tokens?: number; total_tokens?: number };
+};
 
 function parseAspectRatio(ar: string): { width: number; height: number } | null {
   const match = ar.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
@@ -60,32 +67,63 @@ function getOpenAISize(
   return sizes.square;
 }
 
+async function repeat(n: number, fn: () => Promise<Uint8Array[]>): Promise<Uint8Array[]> {
+  const images: Uint8Array[] = [];
+  for (let i = 0; i < n; i++) {
+    images.push(...(await fn()));
+  }
+  return images;
+}
+
 export async function generateImage(
   prompt: string,
   model: string,
   args: CliArgs
-): Promise<Uint8Array> {
-  const baseURL = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+): Promise<Uint8Array[]> {
+  const baseURL = resolveBaseUrl("openai", process.env.OPENAI_BASE_URL, "https://api.openai.com/v1");
   const apiKey = process.env.OPENAI_API_KEY;
 
-  if (!apiKey) throw new Error("OPENAI_API_KEY is required");
+  if (!apiKey) throw new AuthError("openai", "OPENAI_API_KEY is required");
 
   if (process.env.OPENAI_IMAGE_USE_CHAT === "true") {
-    return generateWithChatCompletions(baseURL, apiKey, prompt, model);
+    if (args.editImage) {
+      throw new BadRequestError("openai", "--edit is not supported with OPENAI_IMAGE_USE_CHAT=true. Unset it to use the images edits endpoint.");
+    }
+    return repeat(args.n, () => generateWithChatCompletions(baseURL, apiKey, prompt, model));
   }
 
   const size = args.size || getOpenAISize(model, args.aspectRatio, args.quality);
 
+  if (args.editImage) {
+    if (model.includes("dall-e-3")) {
+      throw new BadRequestError("openai", "dall-e-3 cannot edit images. Use --model gpt-image-1.5 (or dall-e-2).");
+    }
+    if (model.includes("dall-e-2") && args.referenceImages.length > 0) {
+      throw new BadRequestError("openai", "dall-e-2 edits take a single image. Drop --ref or use a gpt-image model.");
+    }
+    // GPT Image picks the source's aspect ratio with "auto"; --ar/--size still override it.
+    const editSize = !args.size && !args.aspectRatio && model.includes("gpt-image") ? "auto" : size;
+    // The edits endpoint applies the mask to the first image.
+    const images = [args.editImage, ...args.referenceImages];
+    return generateWithOpenAIEdits(baseURL, apiKey, prompt, model, editSize, images, args.mask, args.quality, args.n);
+  }
+
   if (args.referenceImages.length > 0) {
     if (model.includes("dall-e-2") || model.includes("dall-e-3")) {
-      throw new Error(
+      throw new BadRequestError(
+        "openai",
         "Reference images with OpenAI in this skill require GPT Image models. Use --model gpt-image-1.5 (or another gpt-image model)."
       );
     }
-    return generateWithOpenAIEdits(baseURL, apiKey, prompt, model, size, args.referenceImages, args.quality);
+    return generateWithOpenAIEdits(baseURL, apiKey, prompt, model, size, args.referenceImages, null, args.quality, args.n);
+  }
+
+  // dall-e-3 only accepts n=1 per request
+  if (model.includes("dall-e-3")) {
+    return repeat(args.n, () => generateWithOpenAIGenerations(baseURL, apiKey, prompt, model, size, args.quality, 1));
   }
 
-  return generateWithOpenAIGenerations(baseURL, apiKey, prompt, model, size, args.quality);
+  return generateWithOpenAIGenerations(baseURL, apiKey, prompt, model, size, args.quality, args.n);
 }
 
 async function generateWithChatCompletions(
@@ -93,30 +131,37 @@ async function generateWithChatCompletions(
   apiKey: string,
   prompt: string,
   model: string
-): Promise<Uint8Array> {
-  const res = await fetch(`${baseURL}/chat/completions`, {
+): Promise<Uint8Array[]> {
+  const res = await providerFetch("openai", `${baseURL}/chat/completions`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
     },
-    body: JSON.stringify({
-      model,
-      messages: [{ role: "user", content: prompt }],
-    }),
+    body: JSON.stringify(
+      withExtraParams("openai", {
+        model,
+        messages: [{ role: "user", content: prompt }],
+      })
+    ),
   });
 
   if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI API error: ${err}`);
+    throw await providerErrorFromResponse("openai", res, "OpenAI API error");
   }
 
-  const result = (await res.json()) as { choices: Array<{ message: { content: string } }> };
+  const result = (await res.json()) as {
+    choices: Array<{ message: { content: string } }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  };
+  if (result.usage) {
+    reportTokenUsage(result.usage.prompt_tokens, result.usage.completion_tokens, result.usage.total_tokens);
+  }
   const content = result.choices[0]?.message?.content ?? "";
 
   const match = content.match(/data:image\/[^;]+;base64,([A-Za-z0-9+/=]+)/);
   if (match) {
-    return Uint8Array.from(Buffer.from(match[1]!, "base64"));
+    return [Uint8Array.from(Buffer.from(match[1]!, "base64"))];
   }
 
   throw new Error("No image found in chat completions response");
@@ -128,26 +173,30 @@ async function generateWithOpenAIGenerations(
   prompt: string,
   model: string,
   size: string,
-  quality: CliArgs["quality"]
-): Promise<Uint8Array> {
+  quality: CliArgs["quality"],
+  n: number
+): Promise<Uint8Array[]> {
   const body: Record<string, any> = { model, prompt, size };
 
+  if (n > 1) {
+    body.n = n;
+  }
+
   if (model.includes("dall-e-3")) {
     body.quality = quality === "2k" ? "hd" : "standard";
   }
 
-  const res = await fetch(`${baseURL}/images/generations`, {
+  const res = await providerFetch("openai", `${baseURL}/images/generations`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
     },
-    body: JSON.stringify(body),
+    body: JSON.stringify(withExtraParams("openai", body)),
   });
 
   if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI API error: ${err}`);
+    throw await providerErrorFromResponse("openai", res, "OpenAI API error");
   }
 
   const result = (await res.json()) as OpenAIImageResponse;
@@ -161,26 +210,40 @@ async function generateWithOpenAIEdits(
   model: string,
   size: string,
   referenceImages: string[],
-  quality: CliArgs["quality"]
-): Promise<Uint8Array> {
+  mask: string | null,
+  quality: CliArgs["quality"],
+  n: number
+): Promise<Uint8Array[]> {
   const form = new FormData();
   form.append("model", model);
   form.append("prompt", prompt);
   form.append("size", size);
 
+  if (n > 1) {
+    form.append("n", String(n));
+  }
+
   if (model.includes("gpt-image")) {
     form.append("quality", quality === "2k" ? "high" : "medium");
   }
 
+  // dall-e-2 only takes a single "image" field.
+  const imageField = model.includes("dall-e-2") ? "image" : "image[]";
   for (const refPath of referenceImages) {
     const bytes = await readFile(refPath);
     const filename = path.basename(refPath);
     const mimeType = getMimeType(filename);
     const blob = new Blob([bytes], { type: mimeType });
-    form.append("image[]", blob, filename);
+    form.append(imageField, blob, filename);
   }
 
-  const res = await fetch(`${baseURL}/images/edits`, {
+  if (mask) {
+    form.append("mask", new Blob([await readFile(mask)], { type: "image/png" }), path.basename(mask));
+  }
+
+  appendExtraParams("openai", form);
+
+  const res = await providerFetch("openai", `${baseURL}/images/edits`, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${apiKey}`,
@@ -189,8 +252,7 @@ async function generateWithOpenAIEdits(
   });
 
   if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI edits API error: ${err}`);
+    throw await providerErrorFromResponse("openai", res, "OpenAI edits API error");
   }
 
   const result = (await res.json()) as OpenAIImageResponse;
@@ -205,19 +267,24 @@ function getMimeType(filename: string): string {
   return "image/png";
 }
 
-async function extractImageFromResponse(result: OpenAIImageResponse): Promise<Uint8Array> {
-  const img = result.data[0];
-
-  if (img?.b64_json) {
-    return Uint8Array.from(Buffer.from(img.b64_json, "base64"));
+async function extractImageFromResponse(result: OpenAIImageResponse): Promise<Uint8Array[]> {
+  if (result.usage) {
+    reportTokenUsage(result.usage.input_tokens, result.usage.output_tokens, result.usage.total_tokens);
   }
 
-  if (img?.url) {
-    const imgRes = await fetch(img.url);
-    if (!imgRes.ok) throw new Error("Failed to download image");
-    const buf = await imgRes.arrayBuffer();
-    return new Uint8Array(buf);
+  const images: Uint8Array[] = [];
+
+  for (const img of result.data) {
+    if (img?.b64_json) {
+      images.push(Uint8Array.from(Buffer.from(img.b64_json, "base64")));
+    } else if (img?.url) {
+      const imgRes = await providerFetch("openai", img.url);
+      if (!imgRes.ok) throw new Error("Failed to download image");
+      const buf = await imgRes.arrayBuffer();
+      images.push(new Uint8Array(buf));
+    }
   }
 
-  throw new Error("No image in response");
+  if (images.length === 0) throw new Error("No image in response");
+  return images;
 }
@@ -1,6 +1,8 @@
 import path from "node:path";
 import { readFile } from "node:fs/promises";
 import type { CliArgs } from "../types";
+import { AuthError, BadRequestError, JobTimeoutError, SafetyError, ServerError, providerErrorFromResponse } from "../errors";
+import { providerFetch, resolveBaseUrl, withExtraParams } from "../provider-settings";
 
 const DEFAULT_MODEL = "google/nano-banana-pro";
 const SYNC_WAIT_SECONDS = 60;
@@ -16,22 +18,27 @@ function getApiToken(): string | null {
 }
 
 function getBaseUrl(): string {
-  const base = process.env.REPLICATE_BASE_URL || "https://api.replicate.com";
-  return base.replace(/\/+$/g, "");
+  return resolveBaseUrl("replicate", process.env.REPLICATE_BASE_URL, "https://api.replicate.com");
 }
 
 function parseModelId(model: string): { owner: string; name: string; version: string | null } {
   const [ownerName, version] = model.split(":");
   const parts = ownerName!.split("/");
   if (parts.length !== 2 || !parts[0] || !parts[1]) {
-    throw new Error(
+    throw new BadRequestError(
+      "replicate",
       `Invalid Replicate model format: "${model}". Expected "owner/name" or "owner/name:version".`
     );
   }
   return { owner: parts[0], name: parts[1], version: version || null };
 }
 
-function buildInput(prompt: string, args: CliArgs, referenceImages: string[]): Record<string, unknown> {
+function buildInput(
+  prompt: string,
+  args: CliArgs,
+  referenceImages: string[],
+  mask: string | null
+): Record<string, unknown> {
   const input: Record<string, unknown> = { prompt };
 
   if (args.aspectRatio) {
@@ -54,6 +61,11 @@ function buildInput(prompt: string, args: CliArgs, referenceImages: string[]): R
     }
   }
 
+  // Inpainting models (e.g. black-forest-labs/flux-fill-pro) read "image" + "mask".
+  if (mask) {
+    input.mask = mask;
+  }
+
   return input;
 }
 
@@ -102,66 +114,82 @@ async function createPrediction(
     headers["Prefer"] = `wait=${SYNC_WAIT_SECONDS}`;
   }
 
-  const res = await fetch(url, {
+  const res = await providerFetch("replicate", url, {
     method: "POST",
     headers,
-    body: JSON.stringify(body),
+    body: JSON.stringify(withExtraParams("replicate", body)),
   });
 
   if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Replicate API error (${res.status}): ${err}`);
+    throw await providerErrorFromResponse("replicate", res, "Replicate API error");
   }
 
   return (await res.json()) as PredictionResponse;
 }
 
+// Replicate reports content-filter refusals only as free-form prediction errors.
+const SAFETY_ERROR_PATTERN = /\b(nsfw|sensitive|safety|flagged)\b/i;
+// Failures of Replicate's own infrastructure, worth a new prediction.
+const TRANSIENT_ERROR_PATTERN = /\b(interrupted|please retry)\b/i;
+
+// Most failed predictions are the model rejecting its input, which a retry (a new
+// billed prediction) would only repeat.
+function predictionError(prediction: PredictionResponse): Error {
+  const message = `Replicate prediction ${prediction.status}: ${prediction.error || "unknown error"}`;
+  if (prediction.error && SAFETY_ERROR_PATTERN.test(prediction.error)) {
+    return new SafetyError("replicate", message);
+  }
+  if (prediction.status === "failed" && prediction.error && TRANSIENT_ERROR_PATTERN.test(prediction.error)) {
+    return new ServerError("replicate", message);
+  }
+  return new BadRequestError("replicate", message);
+}
+
 async function pollPrediction(apiToken: string, getUrl: string): Promise<PredictionResponse> {
   const start = Date.now();
 
   while (Date.now() - start < MAX_POLL_MS) {
-    const res = await fetch(getUrl, {
+    const res = await providerFetch("replicate", getUrl, {
       headers: { Authorization: `Bearer ${apiToken}` },
     });
 
     if (!res.ok) {
-      const err = await res.text();
-      throw new Error(`Replicate poll error (${res.status}): ${err}`);
+      throw await providerErrorFromResponse("replicate", res, "Replicate poll error");
     }
 
     const prediction = (await res.json()) as PredictionResponse;
 
     if (prediction.status === "succeeded") return prediction;
     if (prediction.status === "failed" || prediction.status === "canceled") {
-      throw new Error(`Replicate prediction ${prediction.status}: ${prediction.error || "unknown error"}`);
+      throw predictionError(prediction);
     }
 
     await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
   }
 
-  throw new Error(`Replicate prediction timed out after ${MAX_POLL_MS / 1000}s`);
+  throw new JobTimeoutError("replicate", `Replicate prediction timed out after ${MAX_POLL_MS / 1000}s; it may still finish at ${getUrl}`);
 }
 
-function extractOutputUrl(prediction: PredictionResponse): string {
+function extractOutputUrls(prediction: PredictionResponse): string[] {
   const output = prediction.output;
 
-  if (typeof output === "string") return output;
+  if (typeof output === "string") return [output];
 
   if (Array.isArray(output)) {
-    const first = output[0];
-    if (typeof first === "string") return first;
+    const urls = output.filter((item): item is string => typeof item === "string");
+    if (urls.length > 0) return urls;
   }
 
   if (output && typeof output === "object" && "url" in output) {
     const url = (output as Record<string, unknown>).url;
-    if (typeof url === "string") return url;
+    if (typeof url === "string") return [url];
   }
 
   throw new Error(`Unexpected Replicate output format: ${JSON.stringify(output)}`);
 }
 
 async function downloadImage(url: string): Promise<Uint8Array> {
-  const res = await fetch(url);
+  const res = await providerFetch("replicate", url);
   if (!res.ok) throw new Error(`Failed to download image from Replicate: ${res.status}`);
   const buf = await res.arrayBuffer();
   return new Uint8Array(buf);
@@ -171,23 +199,29 @@ export async function generateImage(
   prompt: string,
   model: string,
   args: CliArgs
-): Promise<Uint8Array> {
+): Promise<Uint8Array[]> {
   const apiToken = getApiToken();
-  if (!apiToken) throw new Error("REPLICATE_API_TOKEN is required. Get one at https://replicate.com/account/api-tokens");
+  if (!apiToken) throw new AuthError("replicate", "REPLICATE_API_TOKEN is required. Get one at https://replicate.com/account/api-tokens");
 
   const parsedModel = parseModelId(model);
 
+  // The edit target goes first so it lands in "image".
+  const imagePaths = args.editImage ? [args.editImage, ...args.referenceImages] : args.referenceImages;
   const refDataUrls: string[] = [];
-  for (const refPath of args.referenceImages) {
+  for (const refPath of imagePaths) {
     refDataUrls.push(await readImageAsDataUrl(refPath));
   }
+  const maskDataUrl = args.mask ? await readImageAsDataUrl(args.mask) : null;
 
-  const input = buildInput(prompt, args, refDataUrls);
+  const input = buildInput(prompt, args, refDataUrls, maskDataUrl);
 
   console.log(`Generating image with Replicate (${model})...`);
 
   let prediction = await createPrediction(apiToken, parsedModel, input, true);
 
+  if (prediction.status === "failed" || prediction.status === "canceled") {
+    throw predictionError(prediction);
+  }
   if (prediction.status !== "succeeded") {
     if (!prediction.urls?.get) {
       throw new Error("Replicate prediction did not return a poll URL");
@@ -198,6 +232,10 @@ export async function generateImage(
 
   console.log("Generation completed.");
 
-  const outputUrl = extractOutputUrl(prediction);
-  return downloadImage(outputUrl);
+  const outputUrls = extractOutputUrls(prediction);
+  const images: Uint8Array[] = [];
+  for (const url of outputUrls) {
+    images.push(await downloadImage(url));
+  }
+  return images;
 }
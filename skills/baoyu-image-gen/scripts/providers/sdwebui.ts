@@ -0,0 +1,161 @@
+import { readFile } from "node:fs/promises";
+import type { CliArgs, SeededImages } from "../types";
+import { readPngSize } from "../png";
+import { AuthError, BadRequestError, providerErrorFromResponse } from "../errors";
+import { providerFetch, resolveBaseUrl, withExtraParams } from "../provider-settings";
+
+// AUTOMATIC1111 stable-diffusion-webui (and API-compatible forks such as Forge)
+// started with --api. "default" keeps whichever checkpoint is currently loaded.
+
+export function getDefaultModel(): string {
+  return process.env.SDWEBUI_IMAGE_MODEL || "default";
+}
+
+function getBaseUrl(): string | null {
+  return resolveBaseUrl("sdwebui", process.env.SDWEBUI_BASE_URL);
+}
+
+function getHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  // Matches the webui's --api-auth user:pass option.
+  const auth = process.env.SDWEBUI_AUTH;
+  if (auth) headers.Authorization = `Basic ${Buffer.from(auth).toString("base64")}`;
+  return headers;
+}
+
+function parseAspectRatio(ar: string): { width: number; height: number } | null {
+  const match = ar.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const w = parseFloat(match[1]!);
+  const h = parseFloat(match[2]!);
+  if (w <= 0 || h <= 0) return null;
+  return { width: w, height: h };
+}
+
+// Stable Diffusion latents are 1/8 of the image size, so dimensions must be multiples of 8.
+function roundTo8(value: number): number {
+  return Math.max(64, Math.round(value / 8) * 8);
+}
+
+async function getBaseSize(args: CliArgs): Promise<{ width: number; height: number }> {
+  if (args.size) {
+    const match = args.size.match(/^(\d+)\s*[x*]\s*(\d+)$/i);
+    if (!match) throw new BadRequestError("sdwebui", `Invalid size: ${args.size}`);
+    return { width: roundTo8(parseInt(match[1]!, 10)), height: roundTo8(parseInt(match[2]!, 10)) };
+  }
+
+  // Edits keep the source dimensions unless --ar asks otherwise.
+  if (args.editImage && !args.aspectRatio) {
+    const source = readPngSize(await readFile(args.editImage));
+    if (source) return { width: roundTo8(source.width), height: roundTo8(source.height) };
+  }
+
+  const longEdge = 1024;
+  const ratio = args.aspectRatio ? parseAspectRatio(args.aspectRatio) : null;
+  if (!ratio) return { width: longEdge, height: longEdge };
+  if (ratio.width >= ratio.height) {
+    return { width: longEdge, height: roundTo8((longEdge * ratio.height) / ratio.width) };
+  }
+  return { width: roundTo8((longEdge * ratio.width) / ratio.height), height: longEdge };
+}
+
+const SETTING_ENV = [
+  "SDWEBUI_NEGATIVE_PROMPT",
+  "SDWEBUI_STEPS",
+  "SDWEBUI_SAMPLER",
+  "SDWEBUI_HR_UPSCALER",
+  "SDWEBUI_DENOISING_STRENGTH",
+] as const;
+
+// The generation settings read from the environment, for the cache key.
+export async function getCacheKeyParts(): Promise<Record<string, unknown>> {
+  return Object.fromEntries(SETTING_ENV.filter((name) => process.env[name]).map((name) => [name, process.env[name]]));
+}
+
+type SdWebUIResponse = {
+  images?: string[];
+  info?: string;
+};
+
+// `info` is a JSON string; all_seeds lists the seed of each image in the batch.
+function parseSeeds(info: string | undefined, count: number): Array<number | null> {
+  let parsed: { seed?: number; all_seeds?: number[] } = {};
+  try {
+    parsed = info ? JSON.parse(info) : {};
+  } catch {}
+  return Array.from({ length: count }, (_, i) => parsed.all_seeds?.[i] ?? (typeof parsed.seed === "number" ? parsed.seed + i : null));
+}
+
+export async function generateImage(
+  prompt: string,
+  model: string,
+  args: CliArgs
+): Promise<SeededImages> {
+  const baseUrl = getBaseUrl();
+  if (!baseUrl) throw new AuthError("sdwebui", "SDWEBUI_BASE_URL or providers.sdwebui.base_url in EXTEND.md is required (e.g. http://127.0.0.1:7860)");
+
+  const { width, height } = await getBaseSize(args);
+  const useImg2Img = args.referenceImages.length > 0 || !!args.editImage;
+
+  const body: Record<string, unknown> = {
+    prompt,
+    width,
+    height,
+    batch_size: args.n,
+    n_iter: 1,
+  };
+
+  if (process.env.SDWEBUI_NEGATIVE_PROMPT) body.negative_prompt = process.env.SDWEBUI_NEGATIVE_PROMPT;
+  if (process.env.SDWEBUI_STEPS) body.steps = parseInt(process.env.SDWEBUI_STEPS, 10);
+  if (process.env.SDWEBUI_SAMPLER) body.sampler_name = process.env.SDWEBUI_SAMPLER;
+  if (model !== "default") body.override_settings = { sd_model_checkpoint: model };
+
+  // --size is taken literally; otherwise 2k renders at 1024 and upscales 2x with hires fix.
+  if (!args.size && args.quality === "2k" && !useImg2Img) {
+    body.enable_hr = true;
+    body.hr_scale = 2;
+    body.hr_upscaler = process.env.SDWEBUI_HR_UPSCALER || "Latent";
+    body.denoising_strength = 0.5;
+  }
+
+  if (useImg2Img) {
+    const initPath = args.editImage ?? args.referenceImages[0]!;
+    const ignored = args.editImage ? args.referenceImages.length : args.referenceImages.length - 1;
+    if (ignored > 0) {
+      console.error("Warning: SD-WebUI img2img takes a single init image; extra reference images are ignored.");
+    }
+    const init = await readFile(initPath);
+    body.init_images = [init.toString("base64")];
+    body.denoising_strength = parseFloat(process.env.SDWEBUI_DENOISING_STRENGTH || "0.75");
+  }
+
+  // Inpainting: white mask pixels are repainted, the rest of the image is kept.
+  if (args.mask) {
+    body.mask = (await readFile(args.mask)).toString("base64");
+    body.inpainting_fill = 1;
+    body.inpaint_full_res = false;
+  }
+
+  const endpoint = useImg2Img ? "img2img" : "txt2img";
+  console.log(`Generating image with SD-WebUI ${endpoint} (${model})...`, { width, height, n: args.n });
+
+  const res = await providerFetch("sdwebui", `${baseUrl}/sdapi/v1/${endpoint}`, {
+    method: "POST",
+    headers: getHeaders(),
+    body: JSON.stringify(withExtraParams("sdwebui", body)),
+  });
+
+  if (!res.ok) {
+    throw await providerErrorFromResponse("sdwebui", res, "SD-WebUI API error");
+  }
+
+  const result = (await res.json()) as SdWebUIResponse;
+  if (!result.images || result.images.length === 0) {
+    console.error("Response:", JSON.stringify({ ...result, images: undefined }, null, 2));
+    throw new Error("No image in response");
+  }
+
+  // Extensions (e.g. ControlNet) append their own preview images after the batch.
+  const images = result.images.slice(0, args.n).map((data) => Uint8Array.from(Buffer.from(data, "base64")));
+  return { images, seeds: parseSeeds(result.info, images.length) };
+}
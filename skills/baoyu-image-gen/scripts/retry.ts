@@ -0,0 +1,39 @@
+import { RateLimitError, isRetryableError } from "./errors";
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60_000,
+};
+
+export function getRetryDelayMs(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * policy.baseDelayMs;
+  return Math.min(exponential + jitter, policy.maxDelayMs);
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(e)) throw e;
+      const delayMs = getRetryDelayMs(e, attempt, policy);
+      onRetry?.(e, attempt, delayMs);
+      await new Promise((r) => setTimeout(r, delayMs));
+    }
+  }
+}
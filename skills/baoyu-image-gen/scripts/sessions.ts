@@ -0,0 +1,205 @@
+import path from "node:path";
+import { homedir } from "node:os";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+
+const SESSION_VERSION = 1;
+const SESSION_FILE_NAME = "session.json";
+
+// Gemini content parts. Thought signatures must be sent back unchanged for the
+// model to continue editing its own earlier image.
+export type ContentPart = {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  thoughtSignature?: string;
+};
+
+export type ContentTurn = { role: "user" | "model"; parts: ContentPart[] };
+
+// On disk, inline image data lives in files next to session.json.
+type StoredPart = {
+  text?: string;
+  inlineData?: { mimeType: string; file: string };
+  thoughtSignature?: string;
+};
+
+type StoredTurn = { role: "user" | "model"; parts: StoredPart[]; timestamp: string };
+
+export type SessionRecord = {
+  version: number;
+  id: string;
+  model: string;
+  turns: StoredTurn[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SessionSummary = {
+  id: string;
+  model: string;
+  turns: number;
+  lastPrompt: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function resolveSessionsDir(): string {
+  const override = process.env.BAOYU_IMAGE_GEN_SESSIONS_DIR?.trim();
+  if (override) return path.resolve(override);
+  return path.join(homedir(), ".baoyu-skills", "baoyu-image-gen", "sessions");
+}
+
+// Ids are used as directory names as they are; rewriting other characters would
+// make different ids (a.b, a_b) share one session.
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export function assertValidSessionId(id: string): void {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid session id "${id}": use 1-100 letters, digits, "-" or "_"`);
+  }
+}
+
+function sessionDir(id: string): string {
+  assertValidSessionId(id);
+  return path.join(resolveSessionsDir(), id);
+}
+
+function extensionFor(mimeType: string): string {
+  if (mimeType === "image/jpeg") return ".jpg";
+  if (mimeType === "image/webp") return ".webp";
+  if (mimeType === "image/gif") return ".gif";
+  return ".png";
+}
+
+export async function loadSession(id: string): Promise<SessionRecord | null> {
+  try {
+    const record = JSON.parse(await readFile(path.join(sessionDir(id), SESSION_FILE_NAME), "utf8")) as SessionRecord;
+    return Array.isArray(record.turns) ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+// Rebuilds the conversation for the next request, reading back the stored images.
+export async function readSessionHistory(record: SessionRecord): Promise<ContentTurn[]> {
+  const dir = sessionDir(record.id);
+  const history: ContentTurn[] = [];
+  for (const turn of record.turns) {
+    const parts: ContentPart[] = [];
+    for (const { inlineData, ...rest } of turn.parts) {
+      if (!inlineData) {
+        parts.push(rest);
+        continue;
+      }
+      const data = (await readFile(path.join(dir, inlineData.file))).toString("base64");
+      parts.push({ ...rest, inlineData: { mimeType: inlineData.mimeType, data } });
+    }
+    history.push({ role: turn.role, parts });
+  }
+  return history;
+}
+
+export async function appendSessionTurns(id: string, model: string, turns: ContentTurn[]): Promise<SessionRecord> {
+  const dir = sessionDir(id);
+  await mkdir(dir, { recursive: true });
+
+  const now = new Date().toISOString();
+  const record: SessionRecord = (await loadSession(id)) ?? {
+    version: SESSION_VERSION,
+    id,
+    model,
+    turns: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  for (const turn of turns) {
+    const index = record.turns.length + 1;
+    const parts: StoredPart[] = [];
+    for (const { inlineData, ...rest } of turn.parts) {
+      if (!inlineData) {
+        parts.push(rest);
+        continue;
+      }
+      const file = `turn-${index}-${turn.role}-${parts.length + 1}${extensionFor(inlineData.mimeType)}`;
+      await writeFile(path.join(dir, file), Buffer.from(inlineData.data, "base64"));
+      parts.push({ ...rest, inlineData: { mimeType: inlineData.mimeType, file } });
+    }
+    record.turns.push({ role: turn.role, parts, timestamp: now });
+  }
+  record.model = model;
+  record.updatedAt = now;
+
+  const metaPath = path.join(dir, SESSION_FILE_NAME);
+  const tmp = `${metaPath}.tmp.${process.pid}.${Date.now()}`;
+  await writeFile(tmp, JSON.stringify(record, null, 2));
+  await rename(tmp, metaPath);
+  return record;
+}
+
+function summarize(record: SessionRecord): SessionSummary {
+  const lastUser = [...record.turns].reverse().find((t) => t.role === "user");
+  const text = lastUser?.parts.find((p) => p.text)?.text ?? "";
+  return {
+    id: record.id,
+    model: record.model,
+    turns: record.turns.filter((t) => t.role === "user").length,
+    lastPrompt: text.split("\n")[0] ?? "",
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  let names: string[];
+  try {
+    names = await readdir(resolveSessionsDir());
+  } catch {
+    return [];
+  }
+
+  const sessions: SessionSummary[] = [];
+  for (const name of names) {
+    const record = await loadSession(name);
+    if (record) sessions.push(summarize(record));
+  }
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  const dir = sessionDir(id);
+  try {
+    await stat(dir);
+  } catch {
+    return false;
+  }
+  await rm(dir, { recursive: true, force: true });
+  return true;
+}
+
+// Removes sessions not continued within olderThanMs; unreadable directories are aged by mtime.
+export async function pruneSessions(olderThanMs: number): Promise<{ removed: number; kept: number }> {
+  const root = resolveSessionsDir();
+  const cutoff = Date.now() - olderThanMs;
+  let removed = 0;
+  let kept = 0;
+
+  let names: string[];
+  try {
+    names = await readdir(root);
+  } catch {
+    return { removed, kept };
+  }
+
+  for (const name of names) {
+    const dir = path.join(root, name);
+    const record = await loadSession(name);
+    const lastUsed = record ? Date.parse(record.updatedAt) : (await stat(dir)).mtimeMs;
+    if (lastUsed >= cutoff) {
+      kept++;
+      continue;
+    }
+    await rm(dir, { recursive: true, force: true });
+    removed++;
+  }
+  return { removed, kept };
+}
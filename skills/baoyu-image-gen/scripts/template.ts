@@ -0,0 +1,214 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+
+// Prompt templates: {{name}} variables, {{> path}} includes (relative to the
+// including file), {{#if name}}…{{else}}…{{/if}}, {{#unless name}}…{{/unless}}
+// and {{! comments }}. A literal "{{" is written as "\{{".
+
+export type TemplateVars = Record<string, string>;
+
+export type RenderOptions = { label: string; file?: string | null; baseDir: string };
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; line: number }
+  | { type: "include"; path: string; line: number }
+  | { type: "if"; name: string; negate: boolean; then: Node[]; else: Node[]; line: number };
+
+type Source = { label: string; baseDir: string; text: string };
+
+type TemplateContext = { vars: TemplateVars; errors: string[] };
+
+const MAX_INCLUDE_DEPTH = 16;
+const NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+// Values that make {{#if}} false; an unset variable is false as well.
+const FALSY_VALUES = ["", "false", "0", "no", "off"];
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (text.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+function parseTemplate(ctx: TemplateContext, source: Source): Node[] {
+  const root: Node[] = [];
+  // Open blocks, innermost last; new nodes go into the innermost branch.
+  const stack: Array<{ node: Extract<Node, { type: "if" }>; keyword: string; inElse: boolean }> = [];
+  const target = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.else : top.node.then;
+  };
+  const at = (offset: number) => `${source.label}:${lineAt(source.text, offset)}`;
+
+  const tagPattern = /\\\{\{|\{\{([\s\S]*?)\}\}/g;
+  let last = 0;
+  for (let match = tagPattern.exec(source.text); match; match = tagPattern.exec(source.text)) {
+    const tag = match[1]?.trim() ?? null;
+    const line = lineAt(source.text, match.index);
+
+    // Comments and block tags alone on a line take the whole line with them.
+    let start = match.index;
+    let end = tagPattern.lastIndex;
+    if (tag !== null && /^[!#/]|^else$/.test(tag)) {
+      const lineStart = source.text.lastIndexOf("\n", match.index - 1) + 1;
+      const rest = source.text.slice(end).match(/^[ \t]*(?:\r?\n|$)/);
+      if (rest && /^[ \t]*$/.test(source.text.slice(lineStart, match.index))) {
+        start = lineStart;
+        end += rest[0].length;
+      }
+    }
+    if (start > last) target().push({ type: "text", value: source.text.slice(last, start) });
+    last = end;
+    tagPattern.lastIndex = end;
+
+    if (tag === null) {
+      target().push({ type: "text", value: "{{" });
+      continue;
+    }
+    if (tag.startsWith("!")) continue;
+
+    if (tag.startsWith(">")) {
+      const includePath = tag.slice(1).trim();
+      if (!includePath) ctx.errors.push(`${at(match.index)}: include needs a path, e.g. {{> partials/style.md}}`);
+      else target().push({ type: "include", path: includePath, line });
+      continue;
+    }
+
+    const open = tag.match(/^#(if|unless)\s+(\S+)$/);
+    if (open) {
+      const [, keyword, name] = open;
+      if (!NAME_PATTERN.test(name!)) ctx.errors.push(`${at(match.index)}: invalid variable name "${name}"`);
+      const node: Extract<Node, { type: "if" }> = { type: "if", name: name!, negate: keyword === "unless", then: [], else: [], line };
+      target().push(node);
+      stack.push({ node, keyword: keyword!, inElse: false });
+      continue;
+    }
+
+    if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) ctx.errors.push(`${at(match.index)}: {{else}} without an open {{#if}}`);
+      else top.inElse = true;
+      continue;
+    }
+
+    const close = tag.match(/^\/(if|unless)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top) ctx.errors.push(`${at(match.index)}: {{/${close[1]}}} without an open block`);
+      else if (top.keyword !== close[1]) ctx.errors.push(`${at(match.index)}: {{/${close[1]}}} closes {{#${top.keyword}}} from line ${top.node.line}`);
+      continue;
+    }
+
+    if (!NAME_PATTERN.test(tag)) {
+      ctx.errors.push(`${at(match.index)}: invalid template tag "{{${tag}}}" (write \\{{ for a literal "{{")`);
+      continue;
+    }
+    target().push({ type: "var", name: tag, line });
+  }
+
+  if (last < source.text.length) target().push({ type: "text", value: source.text.slice(last) });
+  for (const open of stack) ctx.errors.push(`${source.label}:${open.node.line}: {{#${open.keyword} ${open.node.name}}} is never closed`);
+  return root;
+}
+
+async function renderNodes(ctx: TemplateContext, source: Source, nodes: Node[], includes: string[]): Promise<string> {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.value;
+    } else if (node.type === "var") {
+      const value = ctx.vars[node.name];
+      if (value === undefined) ctx.errors.push(`${source.label}:${node.line}: unresolved variable "${node.name}"`);
+      else out += value;
+    } else if (node.type === "if") {
+      const value = ctx.vars[node.name];
+      const truthy = value !== undefined && !FALSY_VALUES.includes(value.trim().toLowerCase());
+      out += await renderNodes(ctx, source, truthy !== node.negate ? node.then : node.else, includes);
+    } else {
+      const file = path.resolve(source.baseDir, node.path);
+      if (includes.includes(file)) {
+        ctx.errors.push(`${source.label}:${node.line}: include cycle: ${[...includes, file].map((f) => path.basename(f)).join(" -> ")}`);
+        continue;
+      }
+      if (includes.length >= MAX_INCLUDE_DEPTH) {
+        ctx.errors.push(`${source.label}:${node.line}: includes nested deeper than ${MAX_INCLUDE_DEPTH}`);
+        continue;
+      }
+      let text: string;
+      try {
+        text = await readFile(file, "utf8");
+      } catch {
+        ctx.errors.push(`${source.label}:${node.line}: include not found: ${node.path} (resolved to ${file})`);
+        continue;
+      }
+      // Drop the final newline so an include on its own line doesn't add a blank one.
+      const included: Source = { label: file, baseDir: path.dirname(file), text: text.replace(/\r?\n$/, "") };
+      out += await renderNodes(ctx, included, parseTemplate(ctx, included), [...includes, file]);
+    }
+  }
+  return out;
+}
+
+// Renders one prompt source. `label` names it in errors (file path, "--prompt", …);
+// includes resolve against baseDir.
+export async function renderTemplate(
+  text: string,
+  vars: TemplateVars,
+  opts: RenderOptions
+): Promise<string> {
+  const ctx: TemplateContext = { vars, errors: [] };
+  const file = opts.file ? path.resolve(opts.file) : null;
+  const source: Source = { label: opts.label, baseDir: opts.baseDir, text };
+  const rendered = await renderNodes(ctx, source, parseTemplate(ctx, source), file ? [file] : []);
+  if (ctx.errors.length > 0) throw new Error(`Prompt template error:\n  ${ctx.errors.join("\n  ")}`);
+  return rendered;
+}
+
+export function parseVarAssignment(value: string): [string, string] {
+  const idx = value.indexOf("=");
+  const name = idx === -1 ? "" : value.slice(0, idx).trim();
+  if (!NAME_PATTERN.test(name)) throw new Error(`Invalid --var: ${value} (expected key=value)`);
+  return [name, value.slice(idx + 1)];
+}
+
+// Nested mappings become dotted names ({{brand.color}}); lists are joined with ", ".
+export function flattenVars(value: unknown, where: string, prefix = "", out: TemplateVars = {}): TemplateVars {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${where}: template variables must be a mapping of name: value`);
+  }
+  for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (!NAME_PATTERN.test(key)) throw new Error(`${where}: invalid variable name "${name}"`);
+    if (v === null || v === undefined) out[name] = "";
+    else if (Array.isArray(v)) out[name] = v.map((item) => String(item)).join(", ");
+    else if (typeof v === "object") flattenVars(v, where, name, out);
+    else out[name] = String(v);
+  }
+  return out;
+}
+
+export async function loadVarsFile(file: string): Promise<TemplateVars> {
+  let content: string;
+  try {
+    content = await readFile(file, "utf8");
+  } catch {
+    throw new Error(`Vars file not found: ${file}`);
+  }
+  let data: unknown;
+  try {
+    data = parseYaml(content);
+  } catch (e) {
+    throw new Error(`Invalid vars file ${file}: ${e instanceof Error ? e.message.split("\n")[0] : String(e)}`);
+  }
+  return data === null ? {} : flattenVars(data, file);
+}
+
+// Rough count for --render-prompt: CJK characters are about one token each,
+// other text about four characters per token.
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[぀-ヿ㐀-鿿가-힯豈-﫿]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
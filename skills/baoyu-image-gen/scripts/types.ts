@@ -1,5 +1,7 @@
-export type Provider = "google" | "openai" | "dashscope" | "replicate";
+export type Provider = "google" | "openai" | "dashscope" | "replicate" | "sdwebui" | "comfyui" | "gemini-web" | "mock";
 export type Quality = "normal" | "2k";
+export type OutputFormat = "webp" | "png" | "jpeg";
+export type FitMode = "cover" | "contain" | "smart-crop";
 
 export type CliArgs = {
   prompt: string | null;
@@ -12,14 +14,82 @@ export type CliArgs = {
   quality: Quality | null;
   imageSize: string | null;
   referenceImages: string[];
+  editImage: string | null;
+  mask: string | null;
   n: number;
+  fit: string | null;
+  fitMode: FitMode;
+  format: OutputFormat | null;
+  outputQuality: number | null;
+  batch: string | null;
+  outDir: string | null;
+  concurrency: number;
+  skipExisting: boolean;
+  noCache: boolean;
+  refresh: boolean;
+  sidecar: boolean;
+  embedMetadata: boolean;
+  profile: string | null;
+  ignoreBudget: boolean;
+  session: string | null;
+  listSessions: boolean;
+  deleteSession: string | null;
+  pruneSessions: string | null;
+  template: boolean;
+  vars: Record<string, string>;
+  varsFile: string | null;
+  renderPrompt: boolean;
   json: boolean;
   help: boolean;
 };
 
+// Providers that choose a seed report it per image so the sidecar can record it.
+export type SeededImages = {
+  images: Uint8Array[];
+  seeds: Array<number | null>;
+};
+
+export type BatchJob = {
+  id: string;
+  prompt: string | null;
+  promptFiles: string[];
+  imagePath: string;
+  provider: Provider | null;
+  model: string | null;
+  aspectRatio: string | null;
+  size: string | null;
+  quality: Quality | null;
+  imageSize: string | null;
+  referenceImages: string[] | null;
+  editImage: string | null;
+  mask: string | null;
+  n: number | null;
+  vars: Record<string, string> | null;
+};
+
+export type ProviderSettings = {
+  base_url: string | null;
+  proxy: string | null;
+  timeout_ms: number | null;
+  params: Record<string, unknown> | null;
+};
+
+// USD list prices used to estimate cost; token prices win when the API reports usage.
+export type PriceEntry = {
+  per_image: number | null;
+  per_million_input_tokens: number | null;
+  per_million_output_tokens: number | null;
+};
+
+export type BudgetConfig = {
+  daily_usd: number | null;
+  monthly_usd: number | null;
+};
+
 export type ExtendConfig = {
   version: number;
   default_provider: Provider | null;
+  provider_chain: Provider[] | null;
   default_quality: Quality | null;
   default_aspect_ratio: string | null;
   default_image_size: "1K" | "2K" | "4K" | null;
@@ -28,5 +98,13 @@ export type ExtendConfig = {
     openai: string | null;
     dashscope: string | null;
     replicate: string | null;
+    sdwebui: string | null;
+    comfyui: string | null;
+    "gemini-web": string | null;
+    mock: string | null;
   };
+  providers: Partial<Record<Provider, ProviderSettings>>;
+  // Keyed by "<provider>/<model>" or "<provider>".
+  pricing: Record<string, PriceEntry>;
+  budget: BudgetConfig;
 };
@@ -0,0 +1,243 @@
+import path from "node:path";
+import { homedir } from "node:os";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import type { BudgetConfig, ExtendConfig, PriceEntry, Provider } from "./types";
+
+export type TokenUsage = { input: number; output: number; total: number };
+
+// One line of usage.jsonl: a single provider call, including failed tries.
+export type UsageEntry = {
+  timestamp: string;
+  project: string;
+  provider: Provider;
+  model: string;
+  status: "ok" | "error";
+  errorType: string | null;
+  count: number;
+  width: number | null;
+  height: number | null;
+  quality: string | null;
+  imageSize: string | null;
+  aspectRatio: string | null;
+  latencyMs: number;
+  tokens: TokenUsage | null;
+  costUsd: number | null;
+};
+
+export type UsageGroupBy = "day" | "provider" | "project" | "model";
+
+export type UsageSummaryRow = {
+  key: string;
+  calls: number;
+  errors: number;
+  images: number;
+  tokens: number;
+  costUsd: number;
+  // Successful calls without a matching price, so costUsd is a lower bound.
+  unpriced: number;
+};
+
+export type BudgetStatus = {
+  daily: { spentUsd: number; limitUsd: number | null };
+  monthly: { spentUsd: number; limitUsd: number | null };
+};
+
+// Approximate list prices in USD; override or extend them with `pricing` in EXTEND.md.
+const PRICE = (per_image: number | null, input: number | null = null, output: number | null = null): PriceEntry => ({
+  per_image,
+  per_million_input_tokens: input,
+  per_million_output_tokens: output,
+});
+
+export const DEFAULT_PRICES: Record<string, PriceEntry> = {
+  "google/gemini-3-pro-image-preview": PRICE(0.134),
+  "google/imagen-3.0-generate-002": PRICE(0.03),
+  "google/imagen-3.0-generate-001": PRICE(0.03),
+  "openai/dall-e-3": PRICE(0.04),
+  "openai/dall-e-2": PRICE(0.02),
+  // Token prices apply when the API reports usage; the per-image price (medium quality, 1024x1024) otherwise.
+  "openai/gpt-image-1.5": PRICE(0.034, 5, 32),
+  "openai/gpt-image-1": PRICE(0.042, 5, 40),
+  "dashscope/z-image-turbo": PRICE(0.015),
+  "replicate/google/nano-banana-pro": PRICE(0.15),
+  // Local or session-based providers cost nothing per call.
+  sdwebui: PRICE(0),
+  comfyui: PRICE(0),
+  "gemini-web": PRICE(0),
+  mock: PRICE(0),
+};
+
+const tokenSink = new AsyncLocalStorage<TokenUsage[]>();
+
+export function resolveUsageLedgerPath(): string {
+  const override = process.env.BAOYU_IMAGE_GEN_USAGE_FILE?.trim();
+  if (override) return path.resolve(override);
+  return path.join(homedir(), ".baoyu-skills", "baoyu-image-gen", "usage.jsonl");
+}
+
+// Runs one provider call and collects the token usage its requests report.
+export async function trackTokenUsage<T>(fn: () => Promise<T>): Promise<{ result: T; tokens: TokenUsage | null }> {
+  const reports: TokenUsage[] = [];
+  const result = await tokenSink.run(reports, fn);
+  if (reports.length === 0) return { result, tokens: null };
+  return {
+    result,
+    tokens: reports.reduce((sum, t) => ({ input: sum.input + t.input, output: sum.output + t.output, total: sum.total + t.total })),
+  };
+}
+
+// Called by providers whose API returns token counts; a no-op outside trackTokenUsage.
+export function reportTokenUsage(input: number | undefined, output: number | undefined, total?: number): void {
+  const i = input ?? 0;
+  const o = output ?? 0;
+  tokenSink.getStore()?.push({ input: i, output: o, total: total ?? i + o });
+}
+
+export function resolvePricing(config: Partial<ExtendConfig>): Record<string, PriceEntry> {
+  return { ...DEFAULT_PRICES, ...config.pricing };
+}
+
+// A budget can only count calls that have a per-image price or token prices.
+export function hasPrice(pricing: Record<string, PriceEntry>, provider: Provider, model: string): boolean {
+  const price = pricing[`${provider}/${model}`] ?? pricing[provider];
+  if (!price) return false;
+  return price.per_image !== null || price.per_million_input_tokens !== null || price.per_million_output_tokens !== null;
+}
+
+// Token prices win when the API reported usage; otherwise the per-image price.
+// Returns null when nothing applies, rather than guessing.
+export function estimateCost(
+  pricing: Record<string, PriceEntry>,
+  provider: Provider,
+  model: string,
+  count: number,
+  tokens: TokenUsage | null
+): number | null {
+  const price = pricing[`${provider}/${model}`] ?? pricing[provider];
+  if (!price) return null;
+  const { per_image, per_million_input_tokens: inputPrice, per_million_output_tokens: outputPrice } = price;
+  if (tokens && (inputPrice !== null || outputPrice !== null)) {
+    return (tokens.input * (inputPrice ?? 0) + tokens.output * (outputPrice ?? 0)) / 1_000_000;
+  }
+  return per_image !== null ? per_image * count : null;
+}
+
+// Ledger writes never fail a generation.
+export async function appendUsage(entry: UsageEntry): Promise<void> {
+  const ledger = resolveUsageLedgerPath();
+  try {
+    await mkdir(path.dirname(ledger), { recursive: true });
+    await appendFile(ledger, JSON.stringify(entry) + "\n");
+  } catch (e) {
+    console.error(`Warning: could not write usage ledger ${ledger}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+export async function readUsage(sinceMs: number | null = null): Promise<UsageEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(resolveUsageLedgerPath(), "utf8");
+  } catch {
+    return [];
+  }
+
+  const cutoff = sinceMs === null ? null : Date.now() - sinceMs;
+  const entries: UsageEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: UsageEntry;
+    try {
+      entry = JSON.parse(line) as UsageEntry;
+    } catch {
+      // A line cut short by a concurrent or interrupted write.
+      continue;
+    }
+    if (cutoff !== null && Date.parse(entry.timestamp) < cutoff) continue;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+// Local calendar day, so "today" matches the user's clock.
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function groupKey(entry: UsageEntry, by: UsageGroupBy): string {
+  if (by === "day") return localDay(new Date(entry.timestamp));
+  if (by === "provider") return entry.provider;
+  if (by === "model") return `${entry.provider}/${entry.model}`;
+  return entry.project;
+}
+
+function aggregate(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageSummaryRow[] {
+  const rows = new Map<string, UsageSummaryRow>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const row = rows.get(key) ?? { key, calls: 0, errors: 0, images: 0, tokens: 0, costUsd: 0, unpriced: 0 };
+    row.calls++;
+    if (entry.status === "error") row.errors++;
+    row.images += entry.count;
+    row.tokens += entry.tokens?.total ?? 0;
+    if (entry.costUsd !== null) row.costUsd += entry.costUsd;
+    else if (entry.status === "ok") row.unpriced++;
+    rows.set(key, row);
+  }
+  return [...rows.values()];
+}
+
+export function summarizeUsage(entries: UsageEntry[], by: UsageGroupBy): UsageSummaryRow[] {
+  const sorted = aggregate(entries, (entry) => groupKey(entry, by));
+  if (by === "day") return sorted.sort((a, b) => a.key.localeCompare(b.key));
+  return sorted.sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+}
+
+export function totalUsage(entries: UsageEntry[]): UsageSummaryRow {
+  return aggregate(entries, () => "total")[0] ?? { key: "total", calls: 0, errors: 0, images: 0, tokens: 0, costUsd: 0, unpriced: 0 };
+}
+
+export function getBudgetStatus(entries: UsageEntry[], budget: Partial<BudgetConfig> | undefined, now = new Date()): BudgetStatus {
+  const today = localDay(now);
+  const month = today.slice(0, 7);
+  let daily = 0;
+  let monthly = 0;
+  for (const entry of entries) {
+    if (!entry.costUsd) continue;
+    const day = localDay(new Date(entry.timestamp));
+    if (day.slice(0, 7) !== month) continue;
+    monthly += entry.costUsd;
+    if (day === today) daily += entry.costUsd;
+  }
+  return {
+    daily: { spentUsd: daily, limitUsd: budget?.daily_usd ?? null },
+    monthly: { spentUsd: monthly, limitUsd: budget?.monthly_usd ?? null },
+  };
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
+}
+
+// Soft limit: checked before each generation, so the call that crosses the
+// limit still completes and the next one is refused.
+export function hasBudget(budget: Partial<BudgetConfig> | undefined): boolean {
+  return budget?.daily_usd != null || budget?.monthly_usd != null;
+}
+
+export async function assertWithinBudget(budget: Partial<BudgetConfig> | undefined): Promise<void> {
+  if (!hasBudget(budget)) return;
+
+  const status = getBudgetStatus(await readUsage(), budget);
+  for (const [label, { spentUsd, limitUsd }] of [
+    ["daily", status.daily],
+    ["monthly", status.monthly],
+  ] as const) {
+    if (limitUsd === null || spentUsd < limitUsd) continue;
+    throw new Error(
+      `Budget exceeded: ${formatUsd(spentUsd)} spent against the ${label} budget of ${formatUsd(limitUsd)}. ` +
+        `Raise budget.${label}_usd in EXTEND.md or pass --ignore-budget.`
+    );
+  }
+}
@@ -163,7 +163,8 @@ export async function convertMarkdown(
   if (!summary) {
     const lines = body.split('\n');
     for (const line of lines) {
-      const trimmed = line.trim();
+      // Raw HTML such as bilingual <section> wrappers is not summary text.
+      const trimmed = line.replace(/<[^>]+>/g, '').trim();
       if (!trimmed) continue;
       if (trimmed.startsWith('#')) continue;
       if (trimmed.startsWith('![')) continue;
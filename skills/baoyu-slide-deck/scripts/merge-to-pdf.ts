@@ -1,6 +1,14 @@
-import { existsSync, readdirSync, readFileSync } from "fs";
-import { join, basename } from "path";
-import { PDFDocument, rgb } from "pdf-lib";
+import { existsSync, readdirSync } from "fs";
+import { join, basename, resolve } from "path";
+import { readOutline, readPromptContent, slideText } from "./outline";
+import {
+  DEFAULT_MARGIN,
+  createRichPdf,
+  parsePageSize,
+  type PdfLayout,
+  type PdfPageSource,
+} from "./pdf-export";
+import { readArticleInfo } from "./article-info";
 
 interface SlideInfo {
   filename: string;
@@ -9,25 +17,43 @@ interface SlideInfo {
   promptPath?: string;
 }
 
-function parseArgs(): { dir: string; output?: string } {
+const USAGE =
+  "Usage: bun merge-to-pdf.ts <slide-deck-dir> [--output filename.pdf] [--page-size a4|letter|16:9] [--margin pt] [--font path.ttf]";
+
+function parseArgs(): { dir: string; output?: string; layout: PdfLayout } {
   const args = process.argv.slice(2);
   let dir = "";
   let output: string | undefined;
+  const layout: PdfLayout = { pageSize: null, margin: DEFAULT_MARGIN };
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--output" || args[i] === "-o") {
       output = args[++i];
+    } else if (args[i] === "--page-size") {
+      layout.pageSize = parsePageSize(args[++i]);
+      if (!layout.pageSize) {
+        console.error(`Invalid page size: ${args[i]} (expected a4, letter or 16:9)`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--margin") {
+      layout.margin = parseFloat(args[++i]);
+      if (isNaN(layout.margin) || layout.margin < 0) {
+        console.error(`Invalid margin: ${args[i]}`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--font") {
+      layout.fontPath = args[++i];
     } else if (!args[i].startsWith("-")) {
       dir = args[i];
     }
   }
 
   if (!dir) {
-    console.error("Usage: bun merge-to-pdf.ts <slide-deck-dir> [--output filename.pdf]");
+    console.error(USAGE);
     process.exit(1);
   }
 
-  return { dir, output };
+  return { dir, output, layout };
 }
 
 function findSlideImages(dir: string): SlideInfo[] {
@@ -66,48 +92,46 @@ function findSlideImages(dir: string): SlideInfo[] {
   return slides;
 }
 
-async function createPdf(slides: SlideInfo[], outputPath: string) {
-  const pdfDoc = await PDFDocument.create();
-  pdfDoc.setAuthor("baoyu-slide-deck");
-  pdfDoc.setSubject("Generated Slide Deck");
-
-  for (const slide of slides) {
-    const imageData = readFileSync(slide.path);
-    const ext = slide.filename.toLowerCase();
-    const image = ext.endsWith(".png")
-      ? await pdfDoc.embedPng(imageData)
-      : await pdfDoc.embedJpg(imageData);
-
-    const { width, height } = image;
-    const page = pdfDoc.addPage([width, height]);
-
-    page.drawImage(image, {
-      x: 0,
-      y: 0,
-      width,
-      height,
-    });
-
-    console.log(`Added: ${slide.filename}${slide.promptPath ? " (prompt available)" : ""}`);
-  }
-
-  const pdfBytes = await pdfDoc.save();
-  await Bun.write(outputPath, pdfBytes);
-
-  console.log(`\nCreated: ${outputPath}`);
-  console.log(`Total pages: ${slides.length}`);
+function buildPages(dir: string, slides: SlideInfo[]): PdfPageSource[] {
+  const outline = readOutline(join(dir, "outline.md"));
+  return slides.map((slide) => {
+    const baseName = slide.filename.replace(/\.(png|jpg|jpeg)$/i, "");
+    const content = outline.get(baseName) ?? readPromptContent(slide.promptPath);
+    const label = content?.headline || baseName.replace(/^\d+-slide-/, "").replace(/-/g, " ");
+    return {
+      imagePath: slide.path,
+      bookmark: `${slide.index}. ${label}`,
+      text: content ? slideText(content) : "",
+    };
+  });
 }
 
 async function main() {
-  const { dir, output } = parseArgs();
+  const { dir, output, layout } = parseArgs();
   const slides = findSlideImages(dir);
 
-  const dirName = basename(dir) === "slide-deck" ? basename(join(dir, "..")) : basename(dir);
+  const absDir = resolve(dir);
+  const dirName = basename(absDir) === "slide-deck" ? basename(join(absDir, "..")) : basename(absDir);
   const outputPath = output || join(dir, `${dirName}.pdf`);
 
   console.log(`Found ${slides.length} slides in: ${dir}\n`);
 
-  await createPdf(slides, outputPath);
+  const article = readArticleInfo(dir, "slide-deck");
+  await createRichPdf(
+    buildPages(dir, slides),
+    {
+      title: article.title,
+      author: article.author,
+      subject: article.subject ?? "Generated Slide Deck",
+      keywords: article.keywords ?? [],
+      creator: "baoyu-slide-deck",
+    },
+    layout,
+    outputPath
+  );
+
+  console.log(`\nCreated: ${outputPath}`);
+  console.log(`Total pages: ${slides.length}`);
 }
 
 main().catch((err) => {
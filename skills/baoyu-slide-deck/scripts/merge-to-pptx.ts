@@ -1,6 +1,14 @@
 import { existsSync, readdirSync, readFileSync } from "fs";
-import { join, basename, extname } from "path";
+import { join, basename, extname, resolve } from "path";
 import PptxGenJS from "pptxgenjs";
+import { readOutline, readPromptContent, speakerNotes, type SlideContent } from "./outline";
+import { readArticleInfo } from "./article-info";
+
+// image: full-bleed images, prompts as notes (default).
+// outline: full-bleed images, talking points from the outline as notes.
+// editable: outline notes plus editable title/body text boxes over a text-free
+// background (backgrounds/<slide file>); the generated slide already has its text drawn in.
+type PptxMode = "image" | "outline" | "editable";
 
 interface SlideInfo {
   filename: string;
@@ -9,25 +17,33 @@ interface SlideInfo {
   promptPath?: string;
 }
 
-function parseArgs(): { dir: string; output?: string } {
+function parseArgs(): { dir: string; output?: string; mode: PptxMode } {
   const args = process.argv.slice(2);
   let dir = "";
   let output: string | undefined;
+  let mode: PptxMode = "image";
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--output" || args[i] === "-o") {
       output = args[++i];
+    } else if (args[i] === "--mode") {
+      const value = args[++i];
+      if (value !== "image" && value !== "outline" && value !== "editable") {
+        console.error(`Invalid mode: ${value} (expected image, outline or editable)`);
+        process.exit(1);
+      }
+      mode = value;
     } else if (!args[i].startsWith("-")) {
       dir = args[i];
     }
   }
 
   if (!dir) {
-    console.error("Usage: bun merge-to-pptx.ts <slide-deck-dir> [--output filename.pptx]");
+    console.error("Usage: bun merge-to-pptx.ts <slide-deck-dir> [--output filename.pptx] [--mode image|outline|editable]");
     process.exit(1);
   }
 
-  return { dir, output };
+  return { dir, output, mode };
 }
 
 function findSlideImages(dir: string): SlideInfo[] {
@@ -75,40 +91,94 @@ function findBasePrompt(): string | undefined {
   return undefined;
 }
 
-async function createPptx(slides: SlideInfo[], outputPath: string) {
+// backgrounds/01-slide-cover.png for 01-slide-cover.png (any of png/jpg/jpeg).
+function findBackground(dir: string, filename: string): string | undefined {
+  const baseName = filename.replace(/\.(png|jpg|jpeg)$/i, "");
+  return ["png", "jpg", "jpeg"].map((ext) => join(dir, "backgrounds", `${baseName}.${ext}`)).find((p) => existsSync(p));
+}
+
+function imageData(file: string): string {
+  const ext = extname(file).toLowerCase().replace(".", "");
+  const mimeType = ext === "png" ? "image/png" : "image/jpeg";
+  return `data:${mimeType};base64,${readFileSync(file).toString("base64")}`;
+}
+
+// Title and body boxes on a translucent panel so they stay readable over the background.
+// LAYOUT_16x9 is 10 x 5.625 inches.
+function addTextBoxes(s: PptxGenJS.Slide, content: SlideContent) {
+  const panel = { color: "FFFFFF", transparency: 20 };
+  if (content.headline) {
+    s.addText(
+      [
+        { text: content.headline, options: { fontSize: 28, bold: true, breakLine: !!content.subheadline } },
+        ...(content.subheadline ? [{ text: content.subheadline, options: { fontSize: 16 } }] : []),
+      ],
+      { x: 0.4, y: 0.3, w: 9.2, h: 1.2, color: "1F2937", fill: panel, valign: "middle", margin: 8 }
+    );
+  }
+  if (content.body.length > 0) {
+    s.addText(
+      content.body.map((point) => ({ text: point, options: { bullet: true, breakLine: true } })),
+      { x: 0.4, y: 1.7, w: 9.2, h: 3.5, fontSize: 16, color: "1F2937", fill: panel, valign: "top", margin: 8 }
+    );
+  }
+}
+
+async function createPptx(dir: string, slides: SlideInfo[], outputPath: string, mode: PptxMode) {
   const pptx = new PptxGenJS();
 
+  const article = readArticleInfo(dir, "slide-deck");
   pptx.layout = "LAYOUT_16x9";
-  pptx.author = "baoyu-slide-deck";
-  pptx.subject = "Generated Slide Deck";
+  pptx.author = article.author ?? "baoyu-slide-deck";
+  pptx.subject = article.subject ?? "Generated Slide Deck";
+  if (article.title) pptx.title = article.title;
 
-  const basePrompt = findBasePrompt();
+  const basePrompt = mode === "image" ? findBasePrompt() : undefined;
+  const outline = mode === "image" ? new Map<string, SlideContent>() : readOutline(join(dir, "outline.md"));
   let notesCount = 0;
+  let textBoxCount = 0;
+  const withoutBackground: string[] = [];
 
   for (const slide of slides) {
     const s = pptx.addSlide();
-    const imageData = readFileSync(slide.path);
-    const base64 = imageData.toString("base64");
-    const ext = extname(slide.filename).toLowerCase().replace(".", "");
-    const mimeType = ext === "png" ? "image/png" : "image/jpeg";
-
-    s.addImage({
-      data: `data:${mimeType};base64,${base64}`,
-      x: 0,
-      y: 0,
-      w: "100%",
-      h: "100%",
-      sizing: { type: "cover", w: "100%", h: "100%" },
-    });
-
-    if (slide.promptPath) {
-      const slidePrompt = readFileSync(slide.promptPath, "utf-8");
-      const fullNotes = basePrompt ? `${basePrompt}\n\n---\n\n${slidePrompt}` : slidePrompt;
-      s.addNotes(fullNotes);
+    const baseName = slide.filename.replace(/\.(png|jpg|jpeg)$/i, "");
+    const content = mode === "image" ? undefined : outline.get(baseName) ?? readPromptContent(slide.promptPath);
+    const editable = mode === "editable" && !!content;
+
+    // Editable slides never show the rendered slide, or its text would appear twice.
+    const imagePath = editable ? findBackground(dir, slide.filename) : slide.path;
+    if (imagePath) {
+      s.addImage({
+        data: imageData(imagePath),
+        x: 0,
+        y: 0,
+        w: "100%",
+        h: "100%",
+        sizing: { type: "cover", w: "100%", h: "100%" },
+      });
+    } else {
+      withoutBackground.push(slide.filename);
+    }
+
+    let notes = "";
+    if (mode === "image") {
+      if (slide.promptPath) {
+        const slidePrompt = readFileSync(slide.promptPath, "utf-8");
+        notes = basePrompt ? `${basePrompt}\n\n---\n\n${slidePrompt}` : slidePrompt;
+      }
+    } else if (content) {
+      notes = speakerNotes(content);
+      if (editable) {
+        addTextBoxes(s, content);
+        textBoxCount++;
+      }
+    }
+    if (notes) {
+      s.addNotes(notes);
       notesCount++;
     }
 
-    console.log(`Added: ${slide.filename}${slide.promptPath ? " (with notes)" : ""}`);
+    console.log(`Added: ${slide.filename}${notes ? " (with notes)" : ""}`);
   }
 
   await pptx.writeFile({ fileName: outputPath });
@@ -117,18 +187,25 @@ async function createPptx(slides: SlideInfo[], outputPath: string) {
   if (notesCount > 0) {
     console.log(`Slides with notes: ${notesCount}${basePrompt ? " (includes base prompt)" : ""}`);
   }
+  if (mode === "editable") {
+    console.log(`Slides with text boxes: ${textBoxCount}`);
+    if (withoutBackground.length > 0) {
+      console.log(`No text-free background in backgrounds/, text boxes on a blank slide: ${withoutBackground.join(", ")}`);
+    }
+  }
 }
 
 async function main() {
-  const { dir, output } = parseArgs();
+  const { dir, output, mode } = parseArgs();
   const slides = findSlideImages(dir);
 
-  const dirName = basename(dir) === "slide-deck" ? basename(join(dir, "..")) : basename(dir);
+  const absDir = resolve(dir);
+  const dirName = basename(absDir) === "slide-deck" ? basename(join(absDir, "..")) : basename(absDir);
   const outputPath = output || join(dir, `${dirName}.pptx`);
 
   console.log(`Found ${slides.length} slides in: ${dir}\n`);
 
-  await createPptx(slides, outputPath);
+  await createPptx(dir, slides, outputPath, mode);
 }
 
 main().catch((err) => {
@@ -0,0 +1,75 @@
+import { existsSync, readFileSync } from "fs";
+
+// Reads the per-slide KEY CONTENT from outline.md (see references/outline-template.md)
+// or from a slide's prompt file, which carries the same block.
+
+export interface SlideContent {
+  // What the slide achieves in the story arc; the presenter's cue.
+  narrativeGoal?: string;
+  headline?: string;
+  subheadline?: string;
+  body: string[];
+}
+
+function block(section: string, name: string): string | undefined {
+  return section.match(new RegExp(`// ${name}\\s*\\n([\\s\\S]*?)(?=\\n// |\\n---|$)`))?.[1];
+}
+
+function parseKeyContent(section: string): SlideContent | null {
+  const keyContent = block(section, "KEY CONTENT");
+  if (keyContent === undefined) return null;
+
+  const content: SlideContent = { body: [] };
+  const goal = block(section, "NARRATIVE GOAL")?.trim();
+  if (goal) content.narrativeGoal = goal;
+  let inBody = false;
+  for (const raw of keyContent.split("\n")) {
+    const line = raw.trim();
+    if (!line) continue;
+    const field = line.match(/^(Headline|Sub-headline|Body):\s*(.*)$/i);
+    if (field) {
+      const [, name, value] = field;
+      const key = name.toLowerCase();
+      inBody = key === "body";
+      if (key === "headline") content.headline = value.trim();
+      else if (key === "sub-headline") content.subheadline = value.trim();
+      else if (value.trim()) content.body.push(value.trim());
+      continue;
+    }
+    if (inBody) content.body.push(line.replace(/^[-*+]\s+/, ""));
+  }
+  return content;
+}
+
+// Keyed by image file name without extension, e.g. "02-slide-problem".
+export function readOutline(outlinePath: string): Map<string, SlideContent> {
+  const slides = new Map<string, SlideContent>();
+  if (!existsSync(outlinePath)) return slides;
+
+  const sections = readFileSync(outlinePath, "utf-8").split(/^## /m).slice(1);
+  for (const section of sections) {
+    const filename = section.match(/\*\*Filename\*\*:\s*(\S+)/)?.[1];
+    const content = filename ? parseKeyContent(section) : null;
+    if (filename && content) slides.set(filename.replace(/\.(png|jpg|jpeg)$/i, ""), content);
+  }
+  return slides;
+}
+
+export function readPromptContent(promptPath: string | undefined): SlideContent | null {
+  if (!promptPath || !existsSync(promptPath)) return null;
+  return parseKeyContent(readFileSync(promptPath, "utf-8"));
+}
+
+export function slideText(content: SlideContent): string {
+  return [content.headline, content.subheadline, ...content.body].filter(Boolean).join("\n");
+}
+
+// Speaker notes: the slide's message and talking points, then the goal as a cue.
+export function speakerNotes(content: SlideContent): string {
+  const parts: string[] = [];
+  const heading = [content.headline, content.subheadline].filter(Boolean).join("\n");
+  if (heading) parts.push(heading);
+  if (content.body.length > 0) parts.push(content.body.map((point) => `• ${point}`).join("\n"));
+  if (content.narrativeGoal) parts.push(`Goal: ${content.narrativeGoal}`);
+  return parts.join("\n\n");
+}
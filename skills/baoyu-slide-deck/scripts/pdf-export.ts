@@ -0,0 +1,209 @@
+import { existsSync, readFileSync } from "fs";
+import { basename } from "path";
+import fontkit from "@pdf-lib/fontkit";
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  StandardFonts,
+  TextRenderingMode,
+  popGraphicsState,
+  pushGraphicsState,
+  setTextRenderingMode,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import type { ArticleInfo } from "./article-info";
+
+// Shared by baoyu-comic and baoyu-slide-deck. Edit the baoyu-comic copy, then run
+// scripts/sync-shared-scripts.sh; `--check` fails when the copies differ.
+
+export type PageSize = "a4" | "letter" | "16:9";
+
+export interface PdfPageSource {
+  imagePath: string;
+  bookmark: string;
+  // Becomes an invisible, searchable text layer over the image.
+  text: string;
+}
+
+export interface DocumentInfo extends ArticleInfo {
+  creator: string;
+}
+
+export interface PdfLayout {
+  // null keeps each page at the image's pixel size.
+  pageSize: PageSize | null;
+  margin: number;
+  fontPath?: string;
+}
+
+// Portrait sizes in points; A4 and Letter turn landscape for landscape images.
+const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+  "16:9": [960, 540],
+};
+
+export const DEFAULT_MARGIN = 36;
+
+// TTF/OTF only: pdf-lib can't embed from a .ttc collection.
+const UNICODE_FONT_CANDIDATES = [
+  "/System/Library/Fonts/Supplemental/Arial Unicode.ttf",
+  "/Library/Fonts/Arial Unicode.ttf",
+  "C:\\Windows\\Fonts\\simhei.ttf",
+  "C:\\Windows\\Fonts\\arialuni.ttf",
+  "/usr/share/fonts/truetype/droid/DroidSansFallbackFull.ttf",
+  "/usr/share/fonts/opentype/noto/NotoSansCJKsc-Regular.otf",
+  "/usr/share/fonts/truetype/arphic-gkai00mp/gkai00mp.ttf",
+];
+
+const TEXT_SIZE = 10;
+const LINE_HEIGHT = 12;
+
+export function parsePageSize(value: string | undefined): PageSize | null {
+  const v = value?.toLowerCase();
+  return v === "a4" || v === "letter" || v === "16:9" ? v : null;
+}
+
+async function loadTextFont(doc: PDFDocument, pages: PdfPageSource[], fontPath?: string): Promise<PDFFont> {
+  const needsUnicode = pages.some((p) => /[^\x00-\xff]/.test(p.text));
+  const file = fontPath ?? (needsUnicode ? UNICODE_FONT_CANDIDATES.find((f) => existsSync(f)) : undefined);
+  if (!file) {
+    if (needsUnicode) {
+      console.warn("Warning: no Unicode font found; non-Latin text is left out of the text layer. Pass --font path/to/font.ttf");
+    }
+    return doc.embedFont(StandardFonts.Helvetica);
+  }
+  doc.registerFontkit(fontkit);
+  return doc.embedFont(readFileSync(file), { subset: true });
+}
+
+// Greedy wrap; breaks at spaces where it can, anywhere in CJK runs.
+function wrapText(text: string, font: PDFFont, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    let lastSpace = -1;
+    for (const ch of paragraph) {
+      const next = line + ch;
+      if (line && font.widthOfTextAtSize(next, TEXT_SIZE) > maxWidth) {
+        if (lastSpace > 0 && ch !== " ") {
+          lines.push(line.slice(0, lastSpace));
+          line = line.slice(lastSpace + 1) + ch;
+        } else {
+          lines.push(line);
+          line = ch === " " ? "" : ch;
+        }
+        lastSpace = line.lastIndexOf(" ");
+        continue;
+      }
+      line = next;
+      if (ch === " ") lastSpace = line.length - 1;
+    }
+    if (line.trim()) lines.push(line);
+  }
+  return lines;
+}
+
+// Keeps only characters the font can encode; anything else would make pdf-lib throw.
+function encodable(text: string, charset: Set<number>): string {
+  let out = "";
+  for (const ch of text) out += ch === "\n" || charset.has(ch.codePointAt(0)!) ? ch : " ";
+  return out.replace(/[ \t]+/g, " ");
+}
+
+function drawTextLayer(page: PDFPage, text: string, font: PDFFont, box: { x: number; y: number; width: number; height: number }) {
+  const lines = wrapText(text, font, box.width);
+  if (lines.length === 0) return;
+  page.pushOperators(pushGraphicsState(), setTextRenderingMode(TextRenderingMode.Invisible));
+  let y = box.y + box.height - TEXT_SIZE;
+  for (const line of lines) {
+    if (y < box.y) break;
+    page.drawText(line, { x: box.x, y, size: TEXT_SIZE, font });
+    y -= LINE_HEIGHT;
+  }
+  page.pushOperators(popGraphicsState());
+}
+
+// pdf-lib has no outline API, so the flat bookmark list is written as raw objects.
+function addOutline(doc: PDFDocument, entries: Array<{ title: string; page: PDFPage }>) {
+  if (entries.length === 0) return;
+  const context = doc.context;
+  const outlinesRef = context.nextRef();
+  const refs = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlinesRef,
+      Dest: [entry.page.ref, "Fit"],
+    });
+    if (i > 0) item.set(PDFName.of("Prev"), refs[i - 1]);
+    if (i < entries.length - 1) item.set(PDFName.of("Next"), refs[i + 1]);
+    context.assign(refs[i], item);
+  });
+  context.assign(
+    outlinesRef,
+    context.obj({ Type: "Outlines", First: refs[0], Last: refs[refs.length - 1], Count: entries.length })
+  );
+  doc.catalog.set(PDFName.of("Outlines"), outlinesRef);
+  doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+function pageSizeFor(layout: PdfLayout, imageWidth: number, imageHeight: number): [number, number] {
+  if (!layout.pageSize) return [imageWidth, imageHeight];
+  const [w, h] = PAGE_SIZES[layout.pageSize];
+  if (layout.pageSize !== "16:9" && imageWidth > imageHeight) return [h, w];
+  return [w, h];
+}
+
+export async function createRichPdf(
+  pages: PdfPageSource[],
+  info: DocumentInfo,
+  layout: PdfLayout,
+  outputPath: string
+): Promise<void> {
+  const pdfDoc = await PDFDocument.create();
+  if (info.title) pdfDoc.setTitle(info.title, { showInWindowTitleBar: true });
+  pdfDoc.setAuthor(info.author ?? info.creator);
+  if (info.subject) pdfDoc.setSubject(info.subject);
+  if (info.keywords.length > 0) pdfDoc.setKeywords(info.keywords);
+  pdfDoc.setCreator(info.creator);
+
+  const font = await loadTextFont(pdfDoc, pages, layout.fontPath);
+  const charset = new Set(font.getCharacterSet());
+  const bookmarks: Array<{ title: string; page: PDFPage }> = [];
+
+  for (const source of pages) {
+    const imageData = readFileSync(source.imagePath);
+    const image = source.imagePath.toLowerCase().endsWith(".png")
+      ? await pdfDoc.embedPng(imageData)
+      : await pdfDoc.embedJpg(imageData);
+
+    const [pageWidth, pageHeight] = pageSizeFor(layout, image.width, image.height);
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+    let box = { x: 0, y: 0, width: image.width, height: image.height };
+    if (layout.pageSize) {
+      const maxWidth = pageWidth - layout.margin * 2;
+      const maxHeight = pageHeight - layout.margin * 2;
+      const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      box = { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height };
+    }
+    page.drawImage(image, box);
+
+    const text = encodable(source.text, charset).trim();
+    if (text) drawTextLayer(page, text, font, box);
+    bookmarks.push({ title: source.bookmark, page });
+
+    console.log(`Added: ${basename(source.imagePath)}${text ? " (text layer)" : ""}`);
+  }
+
+  addOutline(pdfDoc, bookmarks);
+
+  const pdfBytes = await pdfDoc.save();
+  await Bun.write(outputPath, pdfBytes);
+}
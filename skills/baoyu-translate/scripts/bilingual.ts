@@ -0,0 +1,166 @@
+import { readFileSync, writeFileSync } from "fs"
+import { dirname, join } from "path"
+import { unified } from "unified"
+import remarkParse from "remark-parse"
+import remarkGfm from "remark-gfm"
+import remarkFrontmatter from "remark-frontmatter"
+import remarkStringify from "remark-stringify"
+import type { Root, Content, Html, Paragraph } from "mdast"
+
+const args = process.argv.slice(2)
+const [sourceFile, translationFile] = args.filter((a, i) => !a.startsWith("--") && args[i - 1] !== "--output")
+const html = args.includes("--html")
+
+if (!sourceFile || !translationFile) {
+  console.error("Usage: bilingual.ts <source.md> <translation.md> [--output <file>] [--html]")
+  process.exit(1)
+}
+
+const output = args.indexOf("--output") !== -1
+  ? args[args.indexOf("--output") + 1]
+  : join(dirname(translationFile), html ? "bilingual-html.md" : "bilingual.md")
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ["yaml"])
+
+const stringify = unified()
+  .use(remarkStringify, { bullet: "-", emphasis: "*", strong: "*" })
+  .use(remarkGfm)
+  .use(remarkFrontmatter, ["yaml"])
+
+const source = parser.parse(readFileSync(sourceFile, "utf-8"))
+const translation = parser.parse(readFileSync(translationFile, "utf-8"))
+
+let pairs = 0
+let unaligned = 0
+
+function htmlNode(value: string): Html {
+  return { type: "html", value }
+}
+
+function textOf(node: Content): string {
+  return stringify.stringify({ type: "root", children: [node] }).trim()
+}
+
+// Nodes with nothing to translate, shown once.
+function isImageOnly(node: Paragraph): boolean {
+  return node.children.every(c => c.type === "image" || c.type === "imageReference" || (c.type === "text" && !c.value.trim()))
+}
+
+// Blocks only pair up with blocks of the same kind.
+function kindOf(node: Content): string {
+  if (node.type === "heading") return `heading${node.depth}`
+  if (node.type === "list") return `list${node.ordered ? "-ordered" : ""}`
+  if (node.type === "paragraph" && isImageOnly(node)) return "image"
+  return node.type
+}
+
+// Source followed by its translation; with --html both sit in a section that
+// baoyu-markdown-to-html styles through the "bilingual" classes.
+function textPair(s: Content, t: Content): Content[] {
+  pairs++
+  if (textOf(s) === textOf(t)) return [s]
+  if (!html) return [s, t]
+  return [
+    htmlNode(`<section class="bilingual">`),
+    s,
+    htmlNode(`<section class="bilingual-translation">`),
+    t,
+    htmlNode("</section>\n</section>"),
+  ]
+}
+
+function pairNodes(s: Content, t: Content): Content[] {
+  switch (s.type) {
+    case "paragraph":
+      // Images once, from the translation so the alt text is translated.
+      if (isImageOnly(s)) return [t]
+      return textPair(s, t)
+    case "heading":
+      return textPair(s, t)
+    case "list": {
+      if (t.type !== "list" || s.children.length !== t.children.length) return [s, t]
+      return [{
+        ...s,
+        spread: true,
+        children: s.children.map((item, i) => ({ ...item, spread: true, children: interleave(item.children, t.children[i].children) })),
+      }]
+    }
+    case "blockquote":
+      return t.type === "blockquote" ? [{ ...s, children: interleave(s.children, t.children) }] : [s, t]
+    case "footnoteDefinition":
+      return t.type === "footnoteDefinition" ? [{ ...s, children: interleave(s.children, t.children) }] : [s, t]
+    case "table": {
+      // Same shape: each cell holds the source, a line break and the translation.
+      if (t.type !== "table" || s.children.length !== t.children.length) return [s, t]
+      if (s.children.some((row, i) => row.children.length !== t.children[i].children.length)) return [s, t]
+      pairs++
+      return [{
+        ...s,
+        children: s.children.map((row, i) => ({
+          ...row,
+          children: row.children.map((cell, j) => {
+            const tCell = t.children[i].children[j]
+            if (textOf(cell) === textOf(tCell)) return cell
+            return { ...cell, children: [...cell.children, htmlNode("<br>"), ...tCell.children] }
+          }),
+        })),
+      }]
+    }
+    case "code":
+    case "html":
+    case "thematicBreak":
+    case "definition":
+      return [s]
+    default:
+      return [s, t]
+  }
+}
+
+// Pairs children by the longest common run of block kinds; blocks only one side
+// has are kept as they are. The html wrappers are block content too, hence the cast.
+function interleave<T extends Content>(src: T[], tgt: T[]): T[] {
+  const a = src.map(kindOf)
+  const b = tgt.map(kindOf)
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const out: Content[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      out.push(...pairNodes(src[i++], tgt[j++]))
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      unaligned++
+      out.push(src[i++])
+    } else {
+      unaligned++
+      out.push(tgt[j++])
+    }
+  }
+  return out as T[]
+}
+
+// The translation's frontmatter carries the translated title and the source* fields.
+const yaml = translation.children.find(n => n.type === "yaml") ?? source.children.find(n => n.type === "yaml")
+const body = (root: Root) => root.children.filter(n => n.type !== "yaml") as Content[]
+
+const merged: Root = {
+  type: "root",
+  children: [...(yaml ? [yaml] : []), ...interleave(body(source), body(translation))],
+}
+
+writeFileSync(output, stringify.stringify(merged))
+
+console.log(JSON.stringify({
+  source: sourceFile,
+  translation: translationFile,
+  output,
+  format: html ? "html" : "markdown",
+  pairs,
+  unaligned,
+}))
@@ -6,14 +6,16 @@ import remarkGfm from "remark-gfm"
 import remarkFrontmatter from "remark-frontmatter"
 import remarkStringify from "remark-stringify"
 import type { Root, Content } from "mdast"
+import { contextPreamble } from "./context"
 
 const args = process.argv.slice(2)
 const file = args.find(a => !a.startsWith("--"))
 const maxWords = parseInt(args[args.indexOf("--max-words") + 1] || "5000")
 const outputDir = args.indexOf("--output-dir") !== -1 ? args[args.indexOf("--output-dir") + 1] : ""
+const withContext = args.includes("--context")
 
 if (!file) {
-  console.error("Usage: chunk.ts <file> [--max-words 5000]")
+  console.error("Usage: chunk.ts <file> [--max-words 5000] [--output-dir <dir>] [--context]")
   process.exit(1)
 }
 
@@ -42,69 +44,121 @@ function countWords(text: string): number {
   return (cjk?.length || 0) + (latin?.length || 0)
 }
 
+interface Heading {
+  depth: number
+  text: string
+}
+
 interface Block {
   md: string
   words: number
+  type: string
+  // Source line range.
+  start: number
+  end: number
+  // Headings the block sits under, outermost first; a heading block's own is not included.
+  trail: Heading[]
+  // Set on heading blocks.
+  depth?: number
 }
 
-function splitNodeToBlocks(node: Content): Block[] {
+function splitNodeToBlocks(node: Content, trail: Heading[]): Block[] {
   const md = nodeToMd(node)
   const words = countWords(md)
+  const start = node.position?.start.line ?? 0
+  const end = node.position?.end.line ?? start
+  const block = { md, words, type: node.type, start, end, trail }
+
+  if (node.type === "heading") return [{ ...block, depth: node.depth }]
 
-  if (words <= maxWords) return [{ md, words }]
+  if (words <= maxWords) return [block]
 
-  if (node.type === "heading" || node.type === "thematicBreak" || node.type === "html") {
-    return [{ md, words }]
+  if (node.type === "thematicBreak" || node.type === "html") {
+    return [block]
   }
 
   if ("children" in node && Array.isArray(node.children)) {
     const blocks: Block[] = []
     for (const child of node.children as Content[]) {
-      blocks.push(...splitNodeToBlocks(child))
+      blocks.push(...splitNodeToBlocks(child, trail))
     }
     return blocks
   }
 
+  // Line ranges of the pieces are approximate: the markdown has been re-serialized.
   const lines = md.split("\n")
   if (lines.length > 1) {
     const blocks: Block[] = []
     let buf: string[] = []
     let bufWords = 0
-    for (const line of lines) {
+    let bufStart = 0
+    const piece = (from: number, to: number) => ({
+      ...block,
+      md: buf.join("\n"),
+      words: bufWords,
+      start: Math.min(end, start + from),
+      end: Math.min(end, start + to),
+    })
+    lines.forEach((line, i) => {
       const lw = countWords(line)
       if (bufWords + lw > maxWords && buf.length > 0) {
-        blocks.push({ md: buf.join("\n"), words: bufWords })
+        blocks.push(piece(bufStart, i - 1))
         buf = [line]
         bufWords = lw
+        bufStart = i
       } else {
         buf.push(line)
         bufWords += lw
       }
-    }
-    if (buf.length > 0) blocks.push({ md: buf.join("\n"), words: bufWords })
+    })
+    if (buf.length > 0) blocks.push(piece(bufStart, lines.length - 1))
     return blocks
   }
 
-  return [{ md, words }]
+  return [block]
+}
+
+function headingText(md: string): string {
+  return md.replace(/^#+\s*/, "").trim()
 }
 
 let frontmatter = ""
 const blocks: Block[] = []
+let headings: Heading[] = []
 
 for (const node of tree.children) {
   if (node.type === "yaml") {
     frontmatter = `---\n${node.value}\n---`
     continue
   }
-  blocks.push(...splitNodeToBlocks(node as Content))
+  if (node.type === "heading") headings = headings.filter(h => h.depth < node.depth)
+  const nodeBlocks = splitNodeToBlocks(node as Content, headings)
+  blocks.push(...nodeBlocks)
+  if (node.type === "heading") headings = [...headings, { depth: node.depth, text: headingText(nodeBlocks[0].md) }]
+}
+
+// Words from a heading to the next heading at the same or a higher level.
+function sectionWords(i: number): number {
+  const depth = blocks[i].depth!
+  let words = blocks[i].words
+  for (let j = i + 1; j < blocks.length; j++) {
+    const d = blocks[j].depth
+    if (d !== undefined && d <= depth) break
+    words += blocks[j].words
+  }
+  return words
 }
 
 const chunks: { blocks: Block[]; words: number }[] = []
 let cur: Block[] = []
 let curWords = 0
 
-for (const b of blocks) {
-  if (curWords + b.words > maxWords && cur.length > 0) {
+// A section that won't fit in what's left of the chunk starts a new one, so chunks
+// break at headings where they can and mid-section only when a section is too big.
+// Headings always stay with the content that follows them.
+blocks.forEach((b, i) => {
+  const needed = b.depth !== undefined ? sectionWords(i) : b.words
+  if (curWords + needed > maxWords && cur.some(c => c.depth === undefined)) {
     chunks.push({ blocks: cur, words: curWords })
     cur = [b]
     curWords = b.words
@@ -112,9 +166,25 @@ for (const b of blocks) {
     cur.push(b)
     curWords += b.words
   }
-}
+})
 if (cur.length > 0) chunks.push({ blocks: cur, words: curWords })
 
+function headingPath(chunk: { blocks: Block[] }): string[] {
+  const first = chunk.blocks[0]
+  const path = first.trail.map(h => h.text)
+  return first.depth !== undefined ? [...path, headingText(first.md)] : path
+}
+
+// Heading trail leading into the chunk and the last paragraph before it.
+function preamble(i: number): string {
+  if (i === 0) return ""
+  const trail = chunks[i].blocks[0].trail.map(h => h.text)
+  // "text" blocks are pieces of an oversized paragraph.
+  const previous = chunks.slice(0, i).flatMap(c => c.blocks).reverse()
+    .find(b => b.type === "paragraph" || b.type === "text")?.md ?? ""
+  return trail.length > 0 || previous ? contextPreamble(trail, previous) : ""
+}
+
 const dir = outputDir ? join(outputDir, "chunks") : join(dirname(file), "chunks")
 mkdirSync(dir, { recursive: true })
 
@@ -122,16 +192,31 @@ if (frontmatter) {
   writeFileSync(join(dir, "frontmatter.md"), frontmatter)
 }
 
-chunks.forEach((chunk, i) => {
-  const num = String(i + 1).padStart(2, "0")
-  const out = join(dir, `chunk-${num}.md`)
-  writeFileSync(out, chunk.blocks.map(b => b.md).join("\n\n"))
+const files = chunks.map((chunk, i) => {
+  const name = `chunk-${String(i + 1).padStart(2, "0")}.md`
+  const context = withContext ? preamble(i) : ""
+  const body = chunk.blocks.map(b => b.md).join("\n\n")
+  writeFileSync(join(dir, name), context ? `${context}\n\n${body}` : body)
+  return name
 })
 
+writeFileSync(join(dir, "manifest.json"), JSON.stringify({
+  source: file,
+  max_words: maxWords,
+  context: withContext,
+  chunks: chunks.map((chunk, i) => ({
+    file: files[i],
+    heading_path: headingPath(chunk),
+    words: chunk.words,
+    lines: { start: chunk.blocks[0].start, end: chunk.blocks[chunk.blocks.length - 1].end },
+  })),
+}, null, 2) + "\n")
+
 console.log(JSON.stringify({
   source: file,
   chunks: chunks.length,
   output_dir: dir,
   frontmatter: !!frontmatter,
+  manifest: join(dir, "manifest.json"),
   words_per_chunk: chunks.map(c => c.words)
 }))
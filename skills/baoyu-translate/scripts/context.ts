@@ -0,0 +1,29 @@
+// Read-only context at the top of a chunk: the heading trail and previous paragraph
+// (chunk.ts --context) and translation-memory matches (tm.ts prefill). Each is a
+// single HTML comment, so it never renders and the structure check skips it.
+
+const MARKER = "baoyu-translate:context"
+const PATTERN = new RegExp(`<!-- ${MARKER}[\\s\\S]*?-->`, "g")
+
+export function contextComment(heading: string, lines: string[]): string {
+  // "-->" inside quoted text would end the comment early.
+  return [`<!-- ${MARKER} ${heading}`, ...lines.map(l => l.replaceAll("-->", "-- >")), "-->"].join("\n")
+}
+
+export function contextPreamble(trail: string[], previous: string): string {
+  const lines: string[] = []
+  if (trail.length > 0) lines.push(`Section: ${trail.join(" > ")}`)
+  if (previous) lines.push("Previous paragraph:", previous)
+  return contextComment("(read-only: do not translate or copy; merge.ts removes it)", lines)
+}
+
+// Removes the comments whose heading starts with `heading`, with the blank lines after them.
+export function removeContext(md: string, heading: string): string {
+  const prefix = `<!-- ${MARKER} ${heading}`
+  return md.replace(new RegExp(`${PATTERN.source}\\n*`, "g"), m => (m.startsWith(prefix) ? "" : m))
+}
+
+// Blanks the preambles out but keeps their newlines, so line numbers still match the file.
+export function stripContext(md: string): string {
+  return md.replace(PATTERN, m => m.replace(/[^\n]/g, ""))
+}
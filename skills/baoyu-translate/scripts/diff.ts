@@ -0,0 +1,39 @@
+import { existsSync, readFileSync, statSync } from "fs"
+import { diffChunks, diffMarkdown, formatMismatch, listChunks, type ChunkMismatch, type Mismatch } from "./structure"
+
+const args = process.argv.slice(2)
+const paths = args.filter((a, i) => !a.startsWith("--") && !args[i - 1]?.startsWith("--suffix"))
+const suffix = args.indexOf("--suffix") !== -1 ? args[args.indexOf("--suffix") + 1] : "-draft"
+const json = args.includes("--json")
+
+const notFound = paths.filter(p => !existsSync(p))
+if (notFound.length > 0) {
+  console.error(`Not found: ${notFound.join(", ")}`)
+  process.exit(1)
+}
+
+if (paths.length === 0 || paths.length > 2 || (paths.length === 1 && !statSync(paths[0]).isDirectory())) {
+  console.error("Usage: diff.ts <chunks-dir> [--suffix -draft] [--json]")
+  console.error("       diff.ts <source.md> <translation.md> [--json]")
+  process.exit(1)
+}
+
+let mismatches: (Mismatch | ChunkMismatch)[]
+let untranslated: string[] = []
+if (paths.length === 1) {
+  const chunks = listChunks(paths[0], suffix)
+  untranslated = chunks.filter(c => !c.translation).map(c => c.name)
+  mismatches = diffChunks(chunks)
+} else {
+  mismatches = diffMarkdown(readFileSync(paths[0], "utf-8"), readFileSync(paths[1], "utf-8"))
+}
+
+if (json) {
+  console.log(JSON.stringify({ mismatches, untranslated }))
+} else {
+  for (const m of mismatches) console.log(formatMismatch(m))
+  if (untranslated.length > 0) console.log(`Not translated yet: ${untranslated.join(", ")}`)
+  if (mismatches.length === 0) console.log("Structure matches")
+}
+
+process.exit(mismatches.length > 0 ? 1 : 0)
@@ -0,0 +1,355 @@
+import { existsSync, readFileSync } from "fs"
+import { homedir } from "os"
+import { dirname, extname, join, resolve } from "path"
+import YAML from "yaml"
+
+// Glossary loading, term extraction and glossary checks. Sources and priority
+// follow references/config/extend-schema.md.
+
+export interface GlossaryEntry {
+  from: string
+  to: string
+  note?: string
+  // Where the entry came from: "built-in", "EXTEND.md glossary", a file path, ...
+  source: string
+}
+
+export interface GlossaryOptions {
+  // EXTEND.md to read; found in the usual locations when undefined, skipped when null.
+  extendPath?: string | null
+  from?: string
+  to?: string
+  // The --glossary file, which overrides everything else.
+  glossaryFile?: string
+}
+
+export interface Glossary {
+  entries: GlossaryEntry[]
+  // Files read, lowest priority first.
+  files: string[]
+  pair: string
+}
+
+const BUILT_IN_DIR = join(import.meta.dir, "..", "references")
+
+export function findExtendFile(): string | null {
+  const candidates = [
+    join(process.cwd(), ".baoyu-skills", "baoyu-translate", "EXTEND.md"),
+    join(homedir(), ".baoyu-skills", "baoyu-translate", "EXTEND.md"),
+  ]
+  return candidates.find(p => existsSync(p)) ?? null
+}
+
+// "zh-CN" → "zh"
+export function primaryLanguage(code: string): string {
+  return code.trim().toLowerCase().split(/[-_]/)[0]
+}
+
+function toEntries(value: unknown, source: string): GlossaryEntry[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap(item => {
+    if (!item || typeof item !== "object") return []
+    const { from, to, note } = item as Record<string, unknown>
+    if (typeof from !== "string" || typeof to !== "string" || !from.trim() || !to.trim()) return []
+    return [{ from: from.trim(), to: to.trim(), note: typeof note === "string" && note.trim() ? note.trim() : undefined, source }]
+  })
+}
+
+const FROM_HEADERS = ["from", "source", "term", "english"]
+const TO_HEADERS = ["to", "target", "translation", "chinese"]
+const NOTE_HEADERS = ["note", "notes"]
+
+// First markdown table in the file; columns are picked by header, else taken in from/to/note order.
+function parseMarkdownTable(text: string, source: string): GlossaryEntry[] {
+  const rows = text.split("\n").map(l => l.trim()).filter(l => l.startsWith("|"))
+  if (rows.length < 2) return []
+  const cells = (row: string) => row.replace(/^\||\|$/g, "").split("|").map(c => c.trim())
+  const header = cells(rows[0]).map(h => h.toLowerCase())
+  const column = (names: string[], fallback: number) => {
+    const i = header.findIndex(h => names.includes(h))
+    return i === -1 ? fallback : i
+  }
+  const [fromCol, toCol, noteCol] = [column(FROM_HEADERS, 0), column(TO_HEADERS, 1), column(NOTE_HEADERS, 2)]
+  return toEntries(
+    rows.slice(1).filter(r => !/^\|[\s|:-]+\|?$/.test(r)).map(r => {
+      const c = cells(r)
+      return { from: c[fromCol], to: c[toCol], note: c[noteCol] }
+    }),
+    source,
+  )
+}
+
+export function readGlossaryFile(path: string): GlossaryEntry[] {
+  const text = readFileSync(path, "utf-8")
+  const ext = extname(path).toLowerCase()
+  if (ext === ".yaml" || ext === ".yml") return toEntries(YAML.parse(text), path)
+  return parseMarkdownTable(text, path)
+}
+
+// EXTEND.md is YAML, possibly wrapped in frontmatter or a ```yaml fence.
+function readExtend(path: string): Record<string, unknown> {
+  const text = readFileSync(path, "utf-8")
+  const body = text.match(/```ya?ml\n([\s\S]*?)```/)?.[1] ?? text.match(/^---\n([\s\S]*?)\n---/)?.[1] ?? text
+  const data = YAML.parse(body)
+  return data && typeof data === "object" && !Array.isArray(data) ? data : {}
+}
+
+export function loadGlossary(opts: GlossaryOptions = {}): Glossary {
+  const extendPath = opts.extendPath === undefined ? findExtendFile() : opts.extendPath
+  const extend = extendPath ? readExtend(extendPath) : {}
+  const to = opts.to ?? (typeof extend.target_language === "string" ? extend.target_language : "zh")
+  const pair = `${primaryLanguage(opts.from ?? "en")}-${primaryLanguage(to)}`
+
+  // Lowest priority first; later entries override earlier ones for the same term.
+  const layers: GlossaryEntry[][] = []
+  const files: string[] = []
+  const builtIn = join(BUILT_IN_DIR, `glossary-${pair}.md`)
+  if (existsSync(builtIn)) {
+    layers.push(readGlossaryFile(builtIn).map(e => ({ ...e, source: "built-in" })))
+    files.push(builtIn)
+  }
+  if (extendPath) {
+    const extendDir = dirname(resolve(extendPath))
+    const glossaryFiles = Array.isArray(extend.glossary_files) ? extend.glossary_files : []
+    for (const file of glossaryFiles) {
+      if (typeof file !== "string") continue
+      const path = resolve(extendDir, file)
+      if (!existsSync(path)) {
+        console.error(`Warning: glossary file not found: ${path}`)
+        continue
+      }
+      layers.push(readGlossaryFile(path))
+      files.push(path)
+    }
+    layers.push(toEntries(extend.glossary, "EXTEND.md glossary"))
+    const glossaries = extend.glossaries as Record<string, unknown> | undefined
+    layers.push(toEntries(glossaries?.[pair], `EXTEND.md glossaries.${pair}`))
+  }
+  if (opts.glossaryFile) {
+    layers.push(readGlossaryFile(opts.glossaryFile).map(e => ({ ...e, source: "--glossary" })))
+    files.push(opts.glossaryFile)
+  }
+
+  const merged = new Map<string, GlossaryEntry>()
+  for (const entry of layers.flat()) {
+    const key = entry.from.toLowerCase()
+    merged.delete(key)
+    merged.set(key, entry)
+  }
+  return { entries: [...merged.values()], files, pair }
+}
+
+// Acceptable renderings: "基础化/落地" allows either.
+export function renderings(entry: GlossaryEntry): string[] {
+  return entry.to.split("/").map(t => t.trim()).filter(Boolean)
+}
+
+export function keepsSourceTerm(entry: GlossaryEntry): boolean {
+  return renderings(entry).some(t => t.toLowerCase() === entry.from.toLowerCase())
+}
+
+// Text a translator actually translates: code, link targets and comments are blanked
+// out, keeping line breaks so match positions map back to lines.
+export function proseOf(markdown: string): string {
+  const blank = (m: string) => m.replace(/[^\n]/g, " ")
+  return markdown
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, blank)
+    .replace(/<!--[\s\S]*?-->/g, blank)
+    .replace(/`[^`\n]+`/g, blank)
+    .replace(/\]\([^)\n]*\)/g, m => "]" + blank(m.slice(1)))
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Whole-word, case-insensitive matches for Latin terms (plurals included); plain
+// substring matches for CJK.
+function termPattern(term: string): RegExp {
+  const start = /^[A-Za-z0-9]/.test(term) ? "(?<![A-Za-z0-9])" : ""
+  const end = /[A-Za-z]$/.test(term) ? "(?:s|es)?(?![A-Za-z0-9])" : /[0-9]$/.test(term) ? "(?![A-Za-z0-9])" : ""
+  return new RegExp(`${start}${escapeRegExp(term)}${end}`, "gi")
+}
+
+function matchIndexes(text: string, term: string): number[] {
+  return [...text.matchAll(termPattern(term))].map(m => m.index!)
+}
+
+function lineAt(text: string, index: number): number {
+  let line = 1
+  for (let i = 0; i < index; i++) if (text[i] === "\n") line++
+  return line
+}
+
+export type TermStatus = "untranslated" | "missing" | "inconsistent"
+
+export interface TermIssue {
+  term: string
+  expected: string[]
+  status: TermStatus
+  sourceCount: number
+  // Occurrences of the glossary rendering(s) in the translation.
+  renderedCount: number
+  // Occurrences of the source term left as is (parenthesized glosses excluded).
+  untranslatedCount: number
+  // Translation lines where the term was left untranslated.
+  lines: number[]
+  note?: string
+  glossarySource: string
+}
+
+export interface GlossaryReport {
+  checked: number
+  issues: TermIssue[]
+}
+
+// untranslated: the source term was kept and the glossary rendering never used.
+// missing: neither appears, so the term was rendered some other way.
+// inconsistent: the glossary rendering is used, but the term is also left untranslated elsewhere.
+export function checkGlossary(entries: GlossaryEntry[], source: string, translation: string): GlossaryReport {
+  const src = proseOf(source)
+  const tgt = proseOf(translation)
+  const issues: TermIssue[] = []
+  let checked = 0
+
+  for (const entry of entries) {
+    const sourceCount = matchIndexes(src, entry.from).length
+    if (sourceCount === 0) continue
+    checked++
+
+    const expected = renderings(entry)
+    const renderedCount = expected.reduce((n, t) => n + matchIndexes(tgt, t).length, 0)
+    const issue = (status: TermStatus, untranslatedCount: number, lines: number[]): TermIssue => ({
+      term: entry.from,
+      status,
+      expected,
+      sourceCount,
+      renderedCount,
+      untranslatedCount,
+      lines,
+      note: entry.note,
+      glossarySource: entry.source,
+    })
+
+    if (keepsSourceTerm(entry)) {
+      if (renderedCount === 0) issues.push(issue("missing", 0, []))
+      continue
+    }
+
+    // "智能体（AI Agent）": the source term as a gloss after its rendering is fine.
+    const kept = matchIndexes(tgt, entry.from).filter(i => !/[(（]\s*$/.test(tgt.slice(Math.max(0, i - 3), i)))
+    const lines = [...new Set(kept.map(i => lineAt(tgt, i)))]
+    const untranslatedCount = kept.length
+    const status: TermStatus | null =
+      renderedCount === 0 ? (untranslatedCount > 0 ? "untranslated" : "missing") : untranslatedCount > 0 ? "inconsistent" : null
+    if (status) issues.push(issue(status, untranslatedCount, lines))
+  }
+  return { checked, issues }
+}
+
+export type CandidateKind = "proper-noun" | "acronym" | "identifier" | "ngram"
+
+export interface TermCandidate {
+  term: string
+  kind: CandidateKind
+  count: number
+  // The glossary rendering, when the term is already covered.
+  glossary?: string
+}
+
+const STOPWORDS = new Set(
+  ("a an the and or but if then than so of in on at to for from by with as is are was were be been being it its this that these those " +
+    "there here we you they he she i me my our your their his her them us not no do does did can could will would should may might " +
+    "must have has had what which who whom when where why how all any each some more most such into over about also just only very")
+    .split(" "),
+)
+
+// Allowed between the capitalized words of a name: "Department of Energy". Not
+// "and", which joins two names ("AI Agent and RLHF") far more often than it sits in one.
+const CONNECTORS = new Set(["of", "for", "the", "de", "von", "van"])
+
+// Soft-wrapped lines are joined; list items and table cells start fresh.
+function sentencesOf(block: string): string[] {
+  return block
+    .split(/\n(?=\s*(?:[-*+]|\d+\.)\s)|(?<=[.!?。！？])\s+/)
+    .map(s => s.replace(/^\s*(?:[-*+]|\d+\.)\s+/, "").replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+// Headings are usually Title Case, so there only adjacent capitalized words form a name.
+function properNouns(sentence: string, connectors = true): string[] {
+  const words = sentence.match(/[A-Za-z][A-Za-z0-9'’-]*/g) ?? []
+  const found: string[] = []
+  let run: string[] = []
+  const flush = () => {
+    while (run.length && CONNECTORS.has(run[run.length - 1].toLowerCase())) run.pop()
+    while (run.length && STOPWORDS.has(run[0].toLowerCase())) run.shift()
+    // A lone acronym is already counted as one.
+    if (run.length > 1 || (run.length === 1 && !/^[A-Z0-9]+s?$/.test(run[0]))) found.push(run.join(" "))
+    run = []
+  }
+  words.forEach((word, i) => {
+    // Acronyms count as capitalized so "AI Agent" stays one name.
+    const capitalized = /^[A-Z]/.test(word)
+    // A lone capitalized first word is just the start of the sentence.
+    if (capitalized && (i > 0 || /^[A-Z]/.test(words[1] ?? ""))) run.push(word)
+    else if (connectors && run.length && CONNECTORS.has(word)) run.push(word)
+    else flush()
+  })
+  flush()
+  return found
+}
+
+function ngrams(sentence: string, n: number): string[] {
+  const words = (sentence.toLowerCase().match(/[a-z][a-z0-9'-]*/g) ?? [])
+  const out: string[] = []
+  for (let i = 0; i + n <= words.length; i++) {
+    const gram = words.slice(i, i + n)
+    if (STOPWORDS.has(gram[0]) || STOPWORDS.has(gram[n - 1])) continue
+    out.push(gram.join(" "))
+  }
+  return out
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*(?:\(\))?$/
+// camelCase and snake_case; PascalCase in prose is more often a name ("OpenAI") than code.
+const PROSE_IDENTIFIER = /(?<![\w$])(?:[a-z]+[A-Z][\w$]*|[a-z]+_[a-z0-9_]+)(?![\w$])/g
+
+// Candidate terms for the session glossary, most frequent first. Proper nouns and
+// n-grams only come from Latin-script text; acronyms and identifiers from any.
+export function extractTerms(markdown: string, entries: GlossaryEntry[] = [], minCount = 2): TermCandidate[] {
+  const counts = new Map<string, { term: string; kind: CandidateKind; count: number }>()
+  const add = (term: string, kind: CandidateKind) => {
+    const key = `${kind}:${term.toLowerCase()}`
+    const c = counts.get(key)
+    if (c) c.count++
+    else counts.set(key, { term, kind, count: 1 })
+  }
+
+  for (const m of markdown.matchAll(/`([^`\n]+)`/g)) {
+    if (IDENTIFIER.test(m[1].trim())) add(m[1].trim(), "identifier")
+  }
+  const prose = proseOf(markdown.replace(/^---\n[\s\S]*?\n---\n/, ""))
+  for (const m of prose.matchAll(PROSE_IDENTIFIER)) add(m[0], "identifier")
+  for (const m of prose.matchAll(/(?<![A-Za-z0-9])[A-Z][A-Z0-9]*[A-Z](?=s?(?![A-Za-z0-9]))/g)) add(m[0], "acronym")
+
+  for (const block of prose.split(/\n\s*\n|\n(?=#)|(?<=^#.*)\n/m)) {
+    const heading = /^#+\s/.test(block.trim())
+    for (const sentence of sentencesOf(block.replace(/^\s*#+\s*/, "").replace(/[*_[\]>]/g, " ").replace(/\|/g, "."))) {
+      for (const name of properNouns(sentence, !heading)) add(name, "proper-noun")
+      for (const n of [2, 3]) for (const gram of ngrams(sentence, n)) add(gram, "ngram")
+    }
+  }
+
+  const names = new Set([...counts.values()].filter(c => c.kind !== "ngram").map(c => c.term.toLowerCase()))
+  const glossary = new Map(entries.map(e => [e.from.toLowerCase(), e.to]))
+  return [...counts.values()]
+    // Repeated phrases need a higher bar than names to be worth a glossary entry.
+    .filter(c => c.count >= (c.kind === "ngram" ? Math.max(3, minCount) : minCount))
+    .filter(c => c.kind !== "ngram" || !names.has(c.term))
+    .map(c => {
+      const to = glossary.get(c.term.toLowerCase())
+      return to ? { ...c, glossary: to } : c
+    })
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+}
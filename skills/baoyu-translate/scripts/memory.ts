@@ -0,0 +1,309 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs"
+import { homedir } from "os"
+import { dirname, join } from "path"
+import { unified } from "unified"
+import remarkParse from "remark-parse"
+import remarkGfm from "remark-gfm"
+import remarkFrontmatter from "remark-frontmatter"
+import type { Nodes } from "mdast"
+import { primaryLanguage } from "./glossary"
+
+// Local translation memory: aligned source/target pairs in a JSONL file, one unit
+// per line, at block (paragraph, heading, table cell) and sentence level.
+
+export type UnitKind = "block" | "sentence"
+
+export interface TmUnit {
+  from: string
+  to: string
+  source: string
+  target: string
+  kind: UnitKind
+  // Document the pair was aligned from.
+  origin?: string
+  updated: string
+}
+
+export interface TranslationMemory {
+  path: string
+  units: Map<string, TmUnit>
+}
+
+export interface TmMatch {
+  unit: TmUnit
+  score: number
+}
+
+// A translatable run of markdown; offsets point into the document it came from.
+export interface Segment {
+  type: string
+  text: string
+  start: number
+  end: number
+}
+
+// Project TM if there is one, else the user's.
+export function defaultTmPath(): string {
+  const project = join(process.cwd(), ".baoyu-skills", "baoyu-translate", "tm.jsonl")
+  return existsSync(project) ? project : join(homedir(), ".baoyu-skills", "baoyu-translate", "tm.jsonl")
+}
+
+export function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+function unitKey(from: string, to: string, source: string): string {
+  return `${from}\t${to}\t${normalize(source)}`
+}
+
+export function loadTm(path: string): TranslationMemory {
+  const tm: TranslationMemory = { path, units: new Map() }
+  if (!existsSync(path)) return tm
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const unit = JSON.parse(line) as TmUnit
+      if (unit.source && unit.target) tm.units.set(unitKey(unit.from, unit.to, unit.source), unit)
+    } catch {
+      // A torn last line from an interrupted write; the rest is still good.
+    }
+  }
+  return tm
+}
+
+// Written to a temp file and renamed, so an interrupted save never truncates the TM.
+export function saveTm(tm: TranslationMemory): void {
+  mkdirSync(dirname(tm.path), { recursive: true })
+  const tmp = `${tm.path}.tmp`
+  writeFileSync(tmp, [...tm.units.values()].map(u => JSON.stringify(u)).join("\n") + "\n")
+  renameSync(tmp, tm.path)
+}
+
+// TMX dates stop at whole seconds, so an exported unit re-imported unchanged
+// compares equal to the stored one.
+function sameSecond(a: string, b: string): boolean {
+  return Math.floor(Date.parse(a) / 1000) === Math.floor(Date.parse(b) / 1000)
+}
+
+// Later units replace earlier ones for the same source text; a unit that only
+// round-tripped through TMX leaves the stored one as it was.
+export function addUnits(tm: TranslationMemory, units: TmUnit[]): { added: number; updated: number } {
+  let added = 0
+  let updated = 0
+  for (const unit of units) {
+    const key = unitKey(unit.from, unit.to, unit.source)
+    const existing = tm.units.get(key)
+    const sameTarget = existing && normalize(existing.target) === normalize(unit.target)
+    if (sameTarget && sameSecond(existing.updated, unit.updated)) continue
+    if (!existing) added++
+    else if (!sameTarget) updated++
+    tm.units.set(key, unit)
+  }
+  return { added, updated }
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ["yaml"])
+const SEGMENT_TYPES = new Set(["paragraph", "heading", "tableCell"])
+const SKIPPED_TYPES = new Set(["code", "html", "yaml", "definition"])
+
+// Paragraphs, headings and table cells in document order, as written in the source.
+export function segmentsOf(markdown: string): Segment[] {
+  const segments: Segment[] = []
+  const walk = (node: Nodes) => {
+    if (SKIPPED_TYPES.has(node.type)) return
+    if (SEGMENT_TYPES.has(node.type)) {
+      // Trimmed to the text itself: no heading hashes, table pipes or surrounding space.
+      const raw = markdown.slice(node.position?.start.offset ?? 0, node.position?.end.offset ?? 0)
+      const lead = raw.match(/^(?:#{1,6}|\|)?\s*/)![0].length
+      const trail = raw.slice(lead).match(/\s*(?:#+|\|)?\s*$/)![0].length
+      const start = (node.position?.start.offset ?? 0) + lead
+      const end = (node.position?.end.offset ?? 0) - trail
+      const text = markdown.slice(start, end)
+      // Images and numbers alone carry nothing to translate.
+      if (/\p{L}/u.test(text.replace(/!\[[^\]]*\]\([^)]*\)/g, ""))) segments.push({ type: node.type, text, start, end })
+      return
+    }
+    if ("children" in node) for (const child of node.children) walk(child as Nodes)
+  }
+  walk(parser.parse(markdown))
+  return segments
+}
+
+function sameShape(a: Segment[], b: Segment[]): boolean {
+  return a.length === b.length && a.every((s, i) => s.type === b[i].type)
+}
+
+function sections(segments: Segment[]): Segment[][] {
+  const out: Segment[][] = [[]]
+  for (const s of segments) {
+    if (s.type === "heading") out.push([])
+    out[out.length - 1].push(s)
+  }
+  return out
+}
+
+// Pairs segments by AST block order. When the shapes differ, sections (split at
+// headings) that still line up are kept and the rest is left unaligned.
+export function alignSegments(src: Segment[], tgt: Segment[]): { pairs: [Segment, Segment][]; unaligned: number } {
+  if (sameShape(src, tgt)) return { pairs: src.map((s, i) => [s, tgt[i]]), unaligned: 0 }
+  const srcSections = sections(src)
+  const tgtSections = sections(tgt)
+  if (srcSections.length !== tgtSections.length) return { pairs: [], unaligned: src.length }
+
+  const pairs: [Segment, Segment][] = []
+  let unaligned = 0
+  srcSections.forEach((section, i) => {
+    if (sameShape(section, tgtSections[i])) section.forEach((s, j) => pairs.push([s, tgtSections[i][j]]))
+    else unaligned += section.length
+  })
+  return { pairs, unaligned }
+}
+
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?]["”’)]?)\s+|(?<=[。！？]["”’）]?)/).map(s => s.trim()).filter(Boolean)
+}
+
+// Block units for every pair, plus sentence units where a paragraph has the same
+// number of sentences on both sides. Blocks kept as they were (names, "API", table
+// headers) are stored too, or prefill would never count their chunk as covered.
+export function unitsFromPairs(pairs: [Segment, Segment][], from: string, to: string, origin?: string): TmUnit[] {
+  const updated = new Date().toISOString()
+  const lang = { from: primaryLanguage(from), to: primaryLanguage(to) }
+  const units: TmUnit[] = []
+  for (const [s, t] of pairs) {
+    units.push({ ...lang, source: s.text, target: t.text, kind: "block", origin, updated })
+    if (s.type !== "paragraph") continue
+    const ss = splitSentences(s.text)
+    const ts = splitSentences(t.text)
+    if (ss.length < 2 || ss.length !== ts.length) continue
+    ss.forEach((sentence, i) => {
+      if (normalize(sentence) !== normalize(ts[i])) units.push({ ...lang, source: sentence, target: ts[i], kind: "sentence", origin, updated })
+    })
+  }
+  return units
+}
+
+export function unitsFor(tm: TranslationMemory, from: string, to: string): TmUnit[] {
+  const [f, t] = [primaryLanguage(from), primaryLanguage(to)]
+  return [...tm.units.values()].filter(u => u.from === f && u.to === t)
+}
+
+export function exactMatch(tm: TranslationMemory, from: string, to: string, text: string): TmUnit | undefined {
+  return tm.units.get(unitKey(primaryLanguage(from), primaryLanguage(to), text))
+}
+
+// Levenshtein distance, giving up (Infinity) once it must exceed `max`.
+function distance(a: string, b: string, max: number): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      rowMin = Math.min(rowMin, cur[j])
+    }
+    if (rowMin > max) return Infinity
+    prev = cur
+  }
+  return prev[b.length]
+}
+
+// Best matches at or above `threshold` (0-1, 1 - edit distance / longer length).
+export function fuzzyMatches(candidates: TmUnit[], text: string, threshold: number, limit = 1): TmMatch[] {
+  const a = normalize(text)
+  const matches: TmMatch[] = []
+  for (const unit of candidates) {
+    const b = normalize(unit.source)
+    const longer = Math.max(a.length, b.length)
+    // The length difference alone bounds the score.
+    if (longer === 0 || Math.min(a.length, b.length) / longer < threshold) continue
+    const score = 1 - distance(a, b, Math.floor(longer * (1 - threshold))) / longer
+    if (score >= threshold && score < 1) matches.push({ unit, score: Math.round(score * 100) / 100 })
+  }
+  return matches.sort((x, y) => y.score - x.score).slice(0, limit)
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function unescapeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, h) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d) => String.fromCodePoint(parseInt(d, 10)))
+    .replace(/&amp;/g, "&")
+}
+
+// 2026-10-19T08:30:00.000Z → 20261019T083000Z
+function tmxDate(iso: string): string {
+  return iso.replace(/[-:]/g, "").replace(/\.\d+/, "")
+}
+
+function isoDate(tmx: string | undefined): string {
+  const m = tmx?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  return m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}.000Z` : new Date().toISOString()
+}
+
+// TMX 1.4; kind and origin travel as <prop>s.
+export function toTmx(units: TmUnit[]): string {
+  const srcLang = units[0]?.from ?? "en"
+  const tus = units.map(u => [
+    `    <tu creationdate="${tmxDate(u.updated)}">`,
+    `      <prop type="x-kind">${u.kind}</prop>`,
+    ...(u.origin ? [`      <prop type="x-origin">${escapeXml(u.origin)}</prop>`] : []),
+    `      <tuv xml:lang="${u.from}"><seg>${escapeXml(u.source)}</seg></tuv>`,
+    `      <tuv xml:lang="${u.to}"><seg>${escapeXml(u.target)}</seg></tuv>`,
+    "    </tu>",
+  ].join("\n"))
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<tmx version="1.4">`,
+    `  <header creationtool="baoyu-translate" creationtoolversion="1" segtype="paragraph" o-tmf="jsonl" adminlang="en" srclang="${units.every(u => u.from === srcLang) ? srcLang : "*all*"}" datatype="markdown"/>`,
+    `  <body>`,
+    ...tus,
+    `  </body>`,
+    `</tmx>`,
+    "",
+  ].join("\n")
+}
+
+function attr(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1]
+}
+
+// Reads the <tu>s of a TMX file. Inline markup inside <seg> (<bpt>, <ph>, ...) is
+// dropped. With srclang="*all*", `fallbackFrom` says which language is the source.
+export function fromTmx(xml: string, fallbackFrom = "en"): TmUnit[] {
+  const header = xml.match(/<header\b[^>]*>/)?.[0] ?? ""
+  const headerLang = attr(header, "srclang")
+  const srcLang = primaryLanguage(!headerLang || headerLang === "*all*" ? fallbackFrom : headerLang)
+  const units: TmUnit[] = []
+
+  for (const [, tuAttrs, body] of xml.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g)) {
+    const kind = body.match(/<prop type="x-kind">(\w+)<\/prop>/)?.[1] === "sentence" ? "sentence" : "block"
+    const origin = body.match(/<prop type="x-origin">([\s\S]*?)<\/prop>/)?.[1]
+    const tuvs = [...body.matchAll(/<tuv\b([^>]*)>[\s\S]*?<seg>([\s\S]*?)<\/seg>[\s\S]*?<\/tuv>/g)].map(([, tuvAttrs, seg]) => ({
+      lang: primaryLanguage(attr(tuvAttrs, "xml:lang") ?? attr(tuvAttrs, "lang") ?? ""),
+      text: unescapeXml(seg.replace(/<(bpt|ept|ph|it)\b[^>]*>[\s\S]*?<\/\1>/g, "").replace(/<[^>]+>/g, "")).trim(),
+    }))
+    const source = tuvs.find(t => t.lang === srcLang)
+    if (!source?.text) continue
+    for (const target of tuvs) {
+      if (target === source || !target.text || !target.lang) continue
+      units.push({
+        from: srcLang,
+        to: target.lang,
+        source: source.text,
+        target: target.text,
+        kind,
+        origin: origin ? unescapeXml(origin) : undefined,
+        updated: isoDate(attr(tuAttrs, "changedate") ?? attr(tuAttrs, "creationdate")),
+      })
+    }
+  }
+  return units
+}
@@ -0,0 +1,63 @@
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { dirname, join } from "path"
+import { stripContext } from "./context"
+import { diffChunks, formatMismatch, listChunks } from "./structure"
+
+const args = process.argv.slice(2)
+const dir = args.find((a, i) => !a.startsWith("--") && !args[i - 1]?.startsWith("--"))
+const suffix = args.indexOf("--suffix") !== -1 ? args[args.indexOf("--suffix") + 1] : "-draft"
+
+if (!dir) {
+  console.error("Usage: merge.ts <chunks-dir> [--output <file>] [--suffix -draft]")
+  process.exit(1)
+}
+
+const output = args.indexOf("--output") !== -1 ? args[args.indexOf("--output") + 1] : join(dirname(dir), "translation.md")
+
+const chunks = listChunks(dir, suffix)
+if (chunks.length === 0) {
+  console.error(`No chunk-NN.md files in ${dir}`)
+  process.exit(1)
+}
+
+const missing = chunks.filter(c => !c.translation).map(c => `${c.name}${suffix}.md`)
+if (missing.length > 0) {
+  console.error(`Missing translated chunks: ${missing.join(", ")}`)
+  process.exit(1)
+}
+
+// A translated frontmatter is preferred; otherwise the source one is kept as is.
+const frontmatterFile = [join(dir, `frontmatter${suffix}.md`), join(dir, "frontmatter.md")].find(f => existsSync(f))
+// Context preambles (chunk.ts --context) a translator copied over are dropped here.
+const bodies = chunks.map(c => stripContext(readFileSync(c.translation!, "utf-8")))
+const parts = bodies.map(b => b.trim())
+if (frontmatterFile) parts.unshift(readFileSync(frontmatterFile, "utf-8").trim())
+
+// Where each chunk's first line lands in the merged file, so mismatches can point there too.
+const offsets: Record<string, number> = {}
+let line = frontmatterFile ? parts[0].split("\n").length + 2 : 1
+chunks.forEach((c, i) => {
+  const leading = bodies[i].match(/^\s*/)![0].split("\n").length - 1
+  offsets[c.name] = line - leading
+  line += parts[frontmatterFile ? i + 1 : i].split("\n").length + 1
+})
+
+writeFileSync(output, parts.join("\n\n") + "\n")
+
+const mismatches = diffChunks(chunks).map(m => ({
+  ...m,
+  outputLine: m.translationLine !== undefined ? offsets[m.chunk] + m.translationLine - 1 : undefined,
+}))
+for (const m of mismatches) {
+  console.error(`${formatMismatch(m)}${m.outputLine !== undefined ? ` (${output}:${m.outputLine})` : ""}`)
+}
+
+console.log(JSON.stringify({
+  output,
+  chunks: chunks.length,
+  frontmatter: frontmatterFile ?? null,
+  mismatches,
+}))
+
+// The merged file is still written, so the mismatches can be fixed in place or in the chunks.
+process.exit(mismatches.length > 0 ? 1 : 0)
@@ -0,0 +1,188 @@
+import { existsSync, readdirSync, readFileSync } from "fs"
+import { join } from "path"
+import { unified } from "unified"
+import remarkParse from "remark-parse"
+import remarkGfm from "remark-gfm"
+import remarkFrontmatter from "remark-frontmatter"
+import type { Nodes } from "mdast"
+import { stripContext } from "./context"
+
+// The parts of a markdown document a translation must carry over unchanged:
+// its outline, code, link targets, lists, table shapes and footnotes.
+
+interface Located {
+  line: number
+}
+
+export interface Structure {
+  headings: (Located & { depth: number })[]
+  code: (Located & { lang: string; value: string })[]
+  links: (Located & { url: string })[]
+  images: (Located & { url: string })[]
+  lists: (Located & { items: number })[]
+  // Cell count of each row, header first.
+  tables: (Located & { cells: number[] })[]
+  footnoteRefs: (Located & { id: string })[]
+  footnoteDefs: (Located & { id: string })[]
+}
+
+export type MismatchKind = "heading" | "code" | "link" | "image" | "list" | "table" | "footnote"
+
+export interface Mismatch {
+  kind: MismatchKind
+  message: string
+  sourceLine?: number
+  translationLine?: number
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ["yaml"])
+
+export function extractStructure(markdown: string): Structure {
+  const s: Structure = { headings: [], code: [], links: [], images: [], lists: [], tables: [], footnoteRefs: [], footnoteDefs: [] }
+
+  const walk = (node: Nodes) => {
+    const line = node.position?.start.line ?? 0
+    switch (node.type) {
+      case "heading":
+        s.headings.push({ line, depth: node.depth })
+        break
+      case "code":
+        s.code.push({ line, lang: node.lang ?? "", value: node.value })
+        break
+      case "link":
+      case "definition":
+        s.links.push({ line, url: node.url })
+        break
+      case "image":
+        s.images.push({ line, url: node.url })
+        break
+      case "list":
+        s.lists.push({ line, items: node.children.length })
+        break
+      case "table":
+        s.tables.push({ line, cells: node.children.map(r => r.children.length) })
+        break
+      case "footnoteReference":
+        s.footnoteRefs.push({ line, id: node.identifier })
+        break
+      case "footnoteDefinition":
+        s.footnoteDefs.push({ line, id: node.identifier })
+        break
+    }
+    if ("children" in node) {
+      for (const child of node.children) walk(child as Nodes)
+    }
+  }
+
+  walk(parser.parse(markdown))
+  return s
+}
+
+function where(sourceLine?: number, translationLine?: number): Pick<Mismatch, "sourceLine" | "translationLine"> {
+  return { sourceLine, translationLine }
+}
+
+// Ordered elements are paired by position; a count difference is reported once,
+// then each pair that differs.
+function compareOrdered<T extends Located>(
+  kind: MismatchKind,
+  label: string,
+  src: T[],
+  tgt: T[],
+  differs: (a: T, b: T) => string | null,
+  out: Mismatch[],
+) {
+  if (src.length !== tgt.length) {
+    const extra = src.length > tgt.length ? src[tgt.length] : tgt[src.length]
+    out.push({
+      kind,
+      message: `${label} count ${src.length} → ${tgt.length}`,
+      ...(src.length > tgt.length ? where(extra.line) : where(undefined, extra.line)),
+    })
+  }
+  for (let i = 0; i < Math.min(src.length, tgt.length); i++) {
+    const message = differs(src[i], tgt[i])
+    if (message) out.push({ kind, message: `${label} ${i + 1}: ${message}`, ...where(src[i].line, tgt[i].line) })
+  }
+}
+
+// Unordered elements (a sentence may be reworded around its links) are compared
+// as multisets; every missing or added value is reported.
+function compareValues<T extends Located>(kind: MismatchKind, label: string, src: T[], tgt: T[], key: (x: T) => string, out: Mismatch[]) {
+  const remaining = new Map<string, T[]>()
+  for (const x of tgt) remaining.set(key(x), [...(remaining.get(key(x)) ?? []), x])
+  for (const x of src) {
+    const left = remaining.get(key(x))
+    if (left?.length) left.shift()
+    else out.push({ kind, message: `${label} missing: ${key(x)}`, ...where(x.line) })
+  }
+  for (const [value, extras] of remaining) {
+    for (const x of extras) out.push({ kind, message: `${label} added: ${value}`, ...where(undefined, x.line) })
+  }
+}
+
+export function compareStructure(source: Structure, translation: Structure): Mismatch[] {
+  const out: Mismatch[] = []
+  compareOrdered("heading", "heading", source.headings, translation.headings,
+    (a, b) => a.depth !== b.depth ? `level ${a.depth} → ${b.depth}` : null, out)
+  compareOrdered("code", "code block", source.code, translation.code,
+    (a, b) => a.lang !== b.lang ? `language "${a.lang}" → "${b.lang}"` : a.value !== b.value ? "content changed" : null, out)
+  compareValues("link", "link", source.links, translation.links, x => x.url, out)
+  compareValues("image", "image", source.images, translation.images, x => x.url, out)
+  compareOrdered("list", "list", source.lists, translation.lists,
+    (a, b) => a.items !== b.items ? `${a.items} items → ${b.items}` : null, out)
+  compareOrdered("table", "table", source.tables, translation.tables,
+    (a, b) => {
+      if (a.cells.length !== b.cells.length) return `${a.cells.length} rows → ${b.cells.length}`
+      const row = a.cells.findIndex((n, i) => n !== b.cells[i])
+      return row === -1 ? null : `row ${row + 1} has ${a.cells[row]} cells → ${b.cells[row]}`
+    }, out)
+  compareValues("footnote", "footnote ref", source.footnoteRefs, translation.footnoteRefs, x => `[^${x.id}]`, out)
+  compareValues("footnote", "footnote definition", source.footnoteDefs, translation.footnoteDefs, x => `[^${x.id}]`, out)
+  return out.sort((a, b) => (a.sourceLine ?? a.translationLine ?? 0) - (b.sourceLine ?? b.translationLine ?? 0))
+}
+
+export function diffMarkdown(source: string, translation: string): Mismatch[] {
+  return compareStructure(extractStructure(source), extractStructure(translation))
+}
+
+export interface ChunkFile {
+  // "chunk-03"
+  name: string
+  source: string
+  // Absent until the chunk has been translated.
+  translation?: string
+}
+
+export interface ChunkMismatch extends Mismatch {
+  chunk: string
+}
+
+// chunk-NN.md files written by chunk.ts, paired with their chunk-NN{suffix}.md translations.
+export function listChunks(dir: string, suffix: string): ChunkFile[] {
+  return readdirSync(dir)
+    .filter(f => /^chunk-\d+\.md$/.test(f))
+    .sort((a, b) => parseInt(a.slice(6)) - parseInt(b.slice(6)))
+    .map(f => {
+      const name = f.replace(/\.md$/, "")
+      const translation = join(dir, `${name}${suffix}.md`)
+      return { name, source: join(dir, f), translation: existsSync(translation) ? translation : undefined }
+    })
+}
+
+export function diffChunks(chunks: ChunkFile[]): ChunkMismatch[] {
+  return chunks.flatMap(c => {
+    if (!c.translation) return []
+    const source = stripContext(readFileSync(c.source, "utf-8"))
+    const translation = stripContext(readFileSync(c.translation, "utf-8"))
+    return diffMarkdown(source, translation).map(m => ({ chunk: c.name, ...m }))
+  })
+}
+
+export function formatMismatch(m: Mismatch & { chunk?: string }): string {
+  const lines = [
+    m.sourceLine !== undefined ? `source:${m.sourceLine}` : "",
+    m.translationLine !== undefined ? `translation:${m.translationLine}` : "",
+  ].filter(Boolean).join(" ")
+  return `${m.chunk ? `${m.chunk} ` : ""}${lines}  ${m.message}`
+}
@@ -0,0 +1,66 @@
+import { readFileSync } from "fs"
+import { checkGlossary, extractTerms, loadGlossary, type GlossaryOptions } from "./glossary"
+
+const USAGE = `Usage:
+  terms.ts table [--json]                          Merged glossary as one table
+  terms.ts extract <source.md> [--min-count 2]     Candidate terms from a source document
+  terms.ts check <source.md> <translation.md>      Glossary terms rendered inconsistently or left untranslated
+
+Glossary options (all commands):
+  --extend <EXTEND.md>   Preferences file (default: project, then user EXTEND.md; --no-extend to skip)
+  --from <lang>          Source language (default: en)
+  --to <lang>            Target language (default: EXTEND.md target_language, else zh)
+  --glossary <file>      Extra glossary (.md table or .yaml list); overrides all others`
+
+const args = process.argv.slice(2)
+const VALUE_FLAGS = ["--extend", "--from", "--to", "--glossary", "--min-count"]
+const value = (flag: string) => (args.indexOf(flag) !== -1 ? args[args.indexOf(flag) + 1] : undefined)
+const [command, ...paths] = args.filter((a, i) => !a.startsWith("--") && !VALUE_FLAGS.includes(args[i - 1]))
+
+const options: GlossaryOptions = {
+  extendPath: args.includes("--no-extend") ? null : value("--extend"),
+  from: value("--from"),
+  to: value("--to"),
+  glossaryFile: value("--glossary"),
+}
+
+function cell(text: string | undefined): string {
+  return (text ?? "").replace(/\|/g, "\\|")
+}
+
+if (command === "table" && paths.length === 0) {
+  const glossary = loadGlossary(options)
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(glossary, null, 2))
+  } else {
+    console.log("| from | to | note | source |")
+    console.log("|------|----|------|--------|")
+    for (const e of glossary.entries) console.log(`| ${cell(e.from)} | ${cell(e.to)} | ${cell(e.note)} | ${cell(e.source)} |`)
+  }
+} else if (command === "extract" && paths.length === 1) {
+  const glossary = loadGlossary(options)
+  const minCount = parseInt(value("--min-count") || "2")
+  const candidates = extractTerms(readFileSync(paths[0], "utf-8"), glossary.entries, minCount)
+  console.log(JSON.stringify({
+    source: paths[0],
+    pair: glossary.pair,
+    candidates: candidates.length,
+    uncovered: candidates.filter(c => !c.glossary).length,
+    terms: candidates,
+  }, null, 2))
+} else if (command === "check" && paths.length === 2) {
+  const glossary = loadGlossary(options)
+  const report = checkGlossary(glossary.entries, readFileSync(paths[0], "utf-8"), readFileSync(paths[1], "utf-8"))
+  console.log(JSON.stringify({
+    source: paths[0],
+    translation: paths[1],
+    pair: glossary.pair,
+    glossary_entries: glossary.entries.length,
+    terms_checked: report.checked,
+    issues: report.issues,
+  }, null, 2))
+  process.exit(report.issues.length > 0 ? 1 : 0)
+} else {
+  console.error(USAGE)
+  process.exit(1)
+}
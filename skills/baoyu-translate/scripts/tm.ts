@@ -0,0 +1,162 @@
+import { existsSync, readFileSync, statSync, writeFileSync } from "fs"
+import { join } from "path"
+import { contextComment, removeContext } from "./context"
+import {
+  addUnits,
+  alignSegments,
+  defaultTmPath,
+  exactMatch,
+  fromTmx,
+  fuzzyMatches,
+  loadTm,
+  saveTm,
+  segmentsOf,
+  splitSentences,
+  toTmx,
+  unitsFor,
+  unitsFromPairs,
+  type TmUnit,
+} from "./memory"
+import { listChunks } from "./structure"
+
+const USAGE = `Usage:
+  tm.ts add <chunks-dir> [--suffix -draft]        Align translated chunks and store the pairs
+  tm.ts add <source.md> <translation.md>          Align a whole document with its translation
+  tm.ts prefill <chunks-dir> [--threshold 0.75]   Pre-fill exact matches; list matches in each chunk's preamble
+  tm.ts import <file.tmx>                         Merge a TMX file into the TM
+  tm.ts export <file.tmx>                         Write the TM (this language pair) as TMX
+
+Options:
+  --tm <file>     Translation memory (default: .baoyu-skills/baoyu-translate/tm.jsonl in the project, else home)
+  --from <lang>   Source language (default: en)
+  --to <lang>     Target language (default: zh)`
+
+const TM_HEADING = "tm"
+
+const args = process.argv.slice(2)
+const VALUE_FLAGS = ["--tm", "--from", "--to", "--suffix", "--threshold"]
+const value = (flag: string) => (args.indexOf(flag) !== -1 ? args[args.indexOf(flag) + 1] : undefined)
+const [command, ...paths] = args.filter((a, i) => !a.startsWith("--") && !VALUE_FLAGS.includes(args[i - 1]))
+
+const tmPath = value("--tm") ?? defaultTmPath()
+const from = value("--from") ?? "en"
+const to = value("--to") ?? "zh"
+const suffix = value("--suffix") ?? "-draft"
+const threshold = parseFloat(value("--threshold") ?? "0.75")
+
+// Chunk files in manifest order (chunk.ts), else by number.
+function chunkFiles(dir: string): { source: string; translation: string }[] {
+  const manifestPath = join(dir, "manifest.json")
+  const names: string[] = existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, "utf-8")).chunks.map((c: { file: string }) => c.file)
+    : listChunks(dir, suffix).map(c => `${c.name}.md`)
+  return names.map(name => ({ source: join(dir, name), translation: join(dir, name.replace(/\.md$/, `${suffix}.md`)) }))
+}
+
+function readBody(path: string): string {
+  return removeContext(readFileSync(path, "utf-8"), "")
+}
+
+function add() {
+  const pairs: [string, string][] =
+    paths.length === 1 && statSync(paths[0]).isDirectory()
+      ? chunkFiles(paths[0]).filter(c => existsSync(c.translation)).map(c => [c.source, c.translation])
+      : paths.length === 2 ? [[paths[0], paths[1]]] : []
+  if (pairs.length === 0) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const tm = loadTm(tmPath)
+  const units: TmUnit[] = []
+  const unaligned: { file: string; segments: number }[] = []
+  for (const [source, translation] of pairs) {
+    const aligned = alignSegments(segmentsOf(readBody(source)), segmentsOf(readBody(translation)))
+    units.push(...unitsFromPairs(aligned.pairs, from, to, source))
+    if (aligned.unaligned > 0) unaligned.push({ file: translation, segments: aligned.unaligned })
+  }
+  const { added, updated } = addUnits(tm, units)
+  saveTm(tm)
+  console.log(JSON.stringify({ tm: tmPath, files: pairs.length, units: units.length, added, updated, unaligned, total: tm.units.size }))
+}
+
+function prefill() {
+  if (paths.length !== 1 || !statSync(paths[0]).isDirectory()) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+  const tm = loadTm(tmPath)
+  const candidates = unitsFor(tm, from, to)
+  const prefilled: string[] = []
+  let exactCount = 0
+  let fuzzyCount = 0
+
+  for (const chunk of chunkFiles(paths[0])) {
+    const original = removeContext(readFileSync(chunk.source, "utf-8"), TM_HEADING)
+    const body = readBody(chunk.source)
+    const segments = segmentsOf(body)
+    const exact = segments.map(s => exactMatch(tm, from, to, s.text))
+
+    // Every segment known: the draft is the source with each segment swapped for its translation.
+    if (segments.length > 0 && exact.every(Boolean)) {
+      if (!existsSync(chunk.translation)) {
+        let draft = body
+        for (let i = segments.length - 1; i >= 0; i--) {
+          draft = draft.slice(0, segments[i].start) + exact[i]!.target + draft.slice(segments[i].end)
+        }
+        writeFileSync(chunk.translation, draft.trim())
+        prefilled.push(chunk.translation)
+      }
+      exactCount += segments.length
+      writeFileSync(chunk.source, original)
+      continue
+    }
+
+    const lines: string[] = []
+    segments.forEach((s, i) => {
+      const hit = exact[i]
+      if (hit) {
+        exactCount++
+        lines.push(`- Exact: ${s.text}`, `  => ${hit.target}`)
+        return
+      }
+      for (const sentence of s.type === "paragraph" ? splitSentences(s.text) : []) {
+        const known = exactMatch(tm, from, to, sentence)
+        if (known) lines.push(`- Exact sentence: ${sentence}`, `  => ${known.target}`)
+      }
+      const [best] = fuzzyMatches(candidates, s.text, threshold)
+      if (best) {
+        fuzzyCount++
+        lines.push(`- Fuzzy ${best.score}: ${s.text}`, `  TM: ${best.unit.source}`, `  => ${best.unit.target}`)
+      }
+    })
+    const comment = lines.length > 0
+      ? contextComment(`${TM_HEADING} (read-only translation memory: reuse exact matches verbatim, adapt fuzzy ones; merge.ts removes it)`, lines)
+      : ""
+    // After the chunk.ts preamble, if there is one.
+    const preamble = original.match(/^<!-- baoyu-translate:context [\s\S]*?-->\n*/)?.[0] ?? ""
+    const rest = original.slice(preamble.length)
+    writeFileSync(chunk.source, comment ? `${preamble}${comment}\n\n${rest}` : original)
+  }
+
+  console.log(JSON.stringify({ tm: tmPath, candidates: candidates.length, prefilled, exact: exactCount, fuzzy: fuzzyCount }))
+}
+
+if (command === "add") {
+  add()
+} else if (command === "prefill") {
+  prefill()
+} else if (command === "import" && paths.length === 1) {
+  const tm = loadTm(tmPath)
+  const units = fromTmx(readFileSync(paths[0], "utf-8"), from)
+  const { added, updated } = addUnits(tm, units)
+  saveTm(tm)
+  console.log(JSON.stringify({ tm: tmPath, units: units.length, added, updated, total: tm.units.size }))
+} else if (command === "export" && paths.length === 1) {
+  const units = unitsFor(loadTm(tmPath), from, to)
+  writeFileSync(paths[0], toTmx(units))
+  console.log(JSON.stringify({ tm: tmPath, output: paths[0], units: units.length }))
+} else {
+  console.error(USAGE)
+  process.exit(1)
+}